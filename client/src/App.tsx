@@ -8,13 +8,17 @@ import { ThemeProvider } from "@/hooks/use-theme";
 import { ProtectedRoute } from "./lib/protected-route";
 import Dashboard from "@/pages/dashboard";
 import AuthPage from "@/pages/auth-page";
+import SharePage from "@/pages/share-page";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <ProtectedRoute path="/" component={Dashboard} />
+      <ProtectedRoute path="/shared" component={Dashboard} />
+      <ProtectedRoute path="/files/*" component={Dashboard} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/s/:id" component={SharePage} />
       <Route component={NotFound} />
     </Switch>
   );
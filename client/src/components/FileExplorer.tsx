@@ -1,11 +1,17 @@
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { useDropzone } from "react-dropzone";
+import { useQuery } from "@tanstack/react-query";
 import { FileGrid } from "./FileGrid";
+import { FilePreview } from "./FilePreview";
 import { Button } from "@/components/ui/button";
-import { CloudUpload } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CloudUpload, Lock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { addUploads } from "@/hooks/use-uploads";
+import { lockFolder, setFolderKey, useFolderKey } from "@/hooks/use-vault-keys";
+import { decryptMetadata, splitFilename, unlockFileKey, unlockFolderKey } from "@/lib/vault-crypto";
+import type { Folder } from "@shared/schema";
 
 interface FileExplorerProps {
   folders: any[];
@@ -29,88 +35,101 @@ export function FileExplorer({
   currentFolder,
 }: FileExplorerProps) {
   const [isDragOver, setIsDragOver] = useState(false);
+  const [previewFileId, setPreviewFileId] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [decryptedFiles, setDecryptedFiles] = useState<any[]>([]);
   const { toast } = useToast();
-  const queryClient = useQueryClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const uploadMutation = useMutation({
-    mutationFn: async (files: File[]) => {
-      const uploadPromises = files.map(async (file) => {
-        if (process.env.VITE_STORAGE_DRIVER === "s3") {
-          // Initialize multipart upload
-          const initRes = await apiRequest("POST", "/api/upload/init", {
-            filename: file.name,
-            size: file.size,
-            folderId: currentFolder,
-          });
-          const { uploadId, presignedUrls, fileId } = await initRes.json();
-
-          // Upload parts (simplified - in reality would chunk the file)
-          const parts = [];
-          const formData = new FormData();
-          formData.append("file", file);
-
-          for (let i = 0; i < presignedUrls.length && i < 1; i++) {
-            const response = await fetch(presignedUrls[i], {
-              method: "PUT",
-              body: formData,
-            });
-            
-            parts.push({
-              ETag: response.headers.get("ETag")?.replace(/"/g, "") || "",
-              PartNumber: i + 1,
-            });
-          }
-
-          // Complete upload
-          await apiRequest("POST", "/api/upload/complete", {
-            fileId,
-            uploadId,
-            parts,
-          });
-        } else {
-          // Local upload
-          const formData = new FormData();
-          formData.append("file", file);
-          if (currentFolder) {
-            formData.append("folderId", currentFolder);
-          }
-
-          await fetch("/api/upload/local", {
-            method: "POST",
-            body: formData,
-            credentials: "include",
-          });
+  const { data: folder } = useQuery<Folder>({
+    queryKey: ["/api/folders", currentFolder, "details"],
+    queryFn: async () => {
+      const res = await fetch(`/api/folders/${currentFolder}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch folder");
+      return res.json();
+    },
+    enabled: !!currentFolder,
+  });
+
+  const folderKey = useFolderKey(currentFolder);
+  const isEncrypted = !!folder?.encryption;
+  const isLocked = isEncrypted && !folderKey;
+
+  // Names, types and sizes of encrypted files only exist inside their sealed metadata
+  const filesSignature = files.map((file) => `${file.id}:${file.name}`).join("|");
+  useEffect(() => {
+    if (!isEncrypted || !folderKey) return;
+
+    let cancelled = false;
+    Promise.all(
+      files.map(async (file) => {
+        if (!file.encryption) return file;
+        try {
+          const fileKey = await unlockFileKey(file.encryption, folderKey);
+          const metadata = await decryptMetadata(file.name, fileKey);
+          return { ...file, ...splitFilename(metadata.name), mime: metadata.mime, size: metadata.size, fileKey };
+        } catch {
+          return { ...file, name: "Unreadable file", ext: "" };
         }
-      });
+      })
+    ).then((result) => {
+      if (!cancelled) setDecryptedFiles(result);
+    });
 
-      await Promise.all(uploadPromises);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/me/usage"] });
+    return () => {
+      cancelled = true;
+    };
+  }, [filesSignature, isEncrypted, folderKey]);
+
+  const visibleFiles = isEncrypted ? (folderKey ? decryptedFiles : []) : files;
+  const previewFile = visibleFiles.find((file) => file.id === previewFileId) ?? null;
+
+  const handleUnlock = async () => {
+    if (!folder?.encryption) return;
+
+    setIsUnlocking(true);
+    try {
+      setFolderKey(folder.id, await unlockFolderKey(folder.encryption, passphrase));
+      setPassphrase("");
+    } catch (error) {
       toast({
-        title: "Upload successful",
-        description: "Your files have been uploaded successfully.",
+        title: "Failed to unlock folder",
+        description: (error as Error).message,
+        variant: "destructive",
       });
-    },
-    onError: (error: Error) => {
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const startUpload = useCallback(
+    (files: File[]) => {
+      if (isLocked) {
+        toast({
+          title: "Folder is locked",
+          description: "Unlock this encrypted folder before uploading to it.",
+          variant: "destructive",
+        });
+        return;
+      }
+      addUploads(files, currentFolder);
       toast({
-        title: "Upload failed",
-        description: error.message,
-        variant: "destructive",
+        title: "Upload started",
+        description: `${files.length} ${files.length === 1 ? "file" : "files"} added to the upload queue.`,
       });
     },
-  });
+    [currentFolder, isLocked, toast]
+  );
 
   const onDrop = useCallback(
     (acceptedFiles: File[]) => {
       setIsDragOver(false);
       if (acceptedFiles.length > 0) {
-        uploadMutation.mutate(acceptedFiles);
+        startUpload(acceptedFiles);
       }
     },
-    [uploadMutation]
+    [startUpload]
   );
 
   const { getRootProps, getInputProps } = useDropzone({
@@ -124,12 +143,12 @@ export function FileExplorer({
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(event.target.files || []);
     if (files.length > 0) {
-      uploadMutation.mutate(files);
+      startUpload(files);
     }
     event.target.value = "";
   };
 
-  const hasItems = folders.length > 0 || files.length > 0;
+  const hasItems = folders.length > 0 || visibleFiles.length > 0;
 
   return (
     <div {...getRootProps()} className="flex-1 flex flex-col overflow-hidden relative">
@@ -156,14 +175,71 @@ export function FileExplorer({
         </div>
       )}
 
-      {hasItems || searchQuery ? (
+      {isEncrypted && folderKey && (
+        <div className="flex items-center justify-between px-4 py-2 border-b border-border text-sm text-muted-foreground">
+          <span className="flex items-center space-x-2">
+            <Lock className="h-4 w-4" />
+            <span>End-to-end encrypted folder</span>
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => lockFolder(folder!.id)}
+            data-testid="button-lock-folder"
+          >
+            Lock
+          </Button>
+        </div>
+      )}
+
+      {isLocked ? (
+        <div className="flex-1 flex items-center justify-center p-8">
+          <Card className="w-full max-w-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Lock className="h-5 w-5" />
+                <span>Encrypted folder</span>
+              </CardTitle>
+              <CardDescription>
+                Enter the passphrase for "{folder!.name}" to decrypt its files in this browser.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleUnlock();
+                }}
+              >
+                <Input
+                  type="password"
+                  placeholder="Passphrase"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  data-testid="input-folder-unlock-passphrase"
+                />
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={!passphrase || isUnlocking}
+                  data-testid="button-unlock-folder"
+                >
+                  {isUnlocking ? "Unlocking..." : "Unlock"}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      ) : hasItems || searchQuery ? (
         <FileGrid
           folders={folders}
-          files={files}
+          files={visibleFiles}
           viewMode={viewMode}
           selectedItems={selectedItems}
           onSelectionChange={onSelectionChange}
           onFolderOpen={onFolderOpen}
+          onFileOpen={setPreviewFileId}
           searchQuery={searchQuery}
         />
       ) : (
@@ -180,16 +256,25 @@ export function FileExplorer({
               </p>
               <Button
                 onClick={() => fileInputRef.current?.click()}
-                disabled={uploadMutation.isPending}
                 data-testid="button-upload-first-file"
               >
                 <CloudUpload className="h-4 w-4 mr-2" />
-                {uploadMutation.isPending ? "Uploading..." : "Upload Files"}
+                Upload Files
               </Button>
             </div>
           </div>
         </div>
       )}
+
+      <FilePreview
+        file={previewFile}
+        isOpen={!!previewFile}
+        onClose={() => setPreviewFileId(null)}
+        onDownload={(fileId) => {
+          window.location.href = `/api/files/${fileId}/download`;
+        }}
+        decryptionKey={previewFile?.fileKey}
+      />
     </div>
   );
 }
@@ -9,6 +9,7 @@ interface FileGridProps {
   selectedItems: string[];
   onSelectionChange: (items: string[]) => void;
   onFolderOpen: (folderId: string) => void;
+  onFileOpen?: (fileId: string) => void;
   searchQuery: string;
 }
 
@@ -19,6 +20,7 @@ export function FileGrid({
   selectedItems,
   onSelectionChange,
   onFolderOpen,
+  onFileOpen,
   searchQuery,
 }: FileGridProps) {
   const filteredFolders = useMemo(() => {
@@ -40,8 +42,7 @@ export function FileGrid({
     if (type === "folder") {
       onFolderOpen(id);
     } else {
-      // Handle file preview
-      console.log("Preview file:", id);
+      onFileOpen?.(id);
     }
   };
 
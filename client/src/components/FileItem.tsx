@@ -14,7 +14,8 @@ import {
   Share,
   Edit,
   Trash,
-  Copy
+  Copy,
+  History
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -24,6 +25,9 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
+import { FileVersionsDialog } from "./FileVersionsDialog";
+import { ShareDialog } from "./ShareDialog";
+import { useFolderKey } from "@/hooks/use-vault-keys";
 
 interface FileItemProps {
   item: any;
@@ -35,6 +39,12 @@ interface FileItemProps {
 
 export function FileItem({ item, viewMode, isSelected, onSelect, onClick }: FileItemProps) {
   const [showActions, setShowActions] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [thumbnailFailed, setThumbnailFailed] = useState(false);
+  // Encrypted files carry the key they were decrypted with; folders use the unlocked folder key
+  const folderKey = useFolderKey(item.type === "folder" ? item.id : null);
+  const shareKey: CryptoKey | undefined = item.type === "file" ? item.fileKey : folderKey;
 
   const getFileIcon = () => {
     if (item.type === "folder") {
@@ -77,6 +87,12 @@ export function FileItem({ item, viewMode, isSelected, onSelect, onClick }: File
     return <FileText className={cn(iconClass, "text-gray-500")} />;
   };
 
+  // The server renders thumbnails for plain images; end-to-end encrypted ones are opaque to it.
+  // The timestamp changes with each new version, so cached thumbnails are never stale.
+  const thumbnailUrl = item.type === "file" && !item.encryption && item.mime?.startsWith("image/") && !thumbnailFailed
+    ? `/api/files/${item.id}/thumbnail?v=${new Date(item.updatedAt).getTime()}`
+    : null;
+
   const formatSize = (bytes: number) => {
     if (!bytes) return "";
     const units = ['B', 'KB', 'MB', 'GB'];
@@ -96,49 +112,195 @@ export function FileItem({ item, viewMode, isSelected, onSelect, onClick }: File
     return date.toLocaleDateString();
   };
 
+  const versionsDialog = item.type === "file" && (
+    <FileVersionsDialog file={item} isOpen={showVersions} onClose={() => setShowVersions(false)} />
+  );
+
+  const shareDialog = (
+    <ShareDialog
+      item={item}
+      itemType={item.type}
+      isOpen={showShare}
+      onClose={() => setShowShare(false)}
+      encrypted={!!item.encryption}
+      shareKey={shareKey}
+    />
+  );
+
+  const openShare = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowShare(true);
+  };
+
+  const versionsMenuItem = item.type === "file" && (
+    <DropdownMenuItem
+      onClick={(e) => {
+        e.stopPropagation();
+        setShowVersions(true);
+      }}
+      data-testid={`menu-versions-${item.id}`}
+    >
+      <History className="h-4 w-4 mr-2" />
+      Version history
+    </DropdownMenuItem>
+  );
+
   if (viewMode === "list") {
     return (
+      <>
+        <div 
+          className={cn(
+            "grid grid-cols-12 gap-4 p-4 hover:bg-accent cursor-pointer group",
+            isSelected && "bg-accent"
+          )}
+          onClick={onClick}
+          data-testid={`${item.type}-${item.id}`}
+        >
+          <div className="col-span-6 flex items-center space-x-3">
+            <Checkbox
+              checked={isSelected}
+              onCheckedChange={onSelect}
+              onClick={(e) => e.stopPropagation()}
+              data-testid={`checkbox-${item.id}`}
+            />
+            <div className="flex items-center space-x-2">
+              <div className="w-6 h-6 flex items-center justify-center">
+                {getFileIcon()}
+              </div>
+              <span className="font-medium truncate">
+                {item.name}{item.ext ? `.${item.ext}` : ""}
+              </span>
+            </div>
+          </div>
+          
+          <div className="col-span-2 flex items-center text-sm text-muted-foreground">
+            {item.type === "file" ? formatSize(item.size) : "—"}
+          </div>
+          
+          <div className="col-span-2 flex items-center text-sm text-muted-foreground">
+            {item.type === "folder" ? "Folder" : item.ext?.toUpperCase()}
+          </div>
+          
+          <div className="col-span-2 flex items-center justify-between text-sm text-muted-foreground">
+            <span>{formatDate(item.updatedAt)}</span>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 opacity-0 group-hover:opacity-100"
+                  onClick={(e) => e.stopPropagation()}
+                  data-testid={`menu-${item.id}`}
+                >
+                  <MoreHorizontal className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={openShare} data-testid={`menu-share-${item.id}`}>
+                  <Share className="h-4 w-4 mr-2" />
+                  Share
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem>
+                  <Edit className="h-4 w-4 mr-2" />
+                  Rename
+                </DropdownMenuItem>
+                <DropdownMenuItem>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </DropdownMenuItem>
+                {versionsMenuItem}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem className="text-destructive">
+                  <Trash className="h-4 w-4 mr-2" />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+        {versionsDialog}
+        {shareDialog}
+      </>
+    );
+  }
+
+  return (
+    <>
       <div 
         className={cn(
-          "grid grid-cols-12 gap-4 p-4 hover:bg-accent cursor-pointer group",
-          isSelected && "bg-accent"
+          "group cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring rounded-lg relative",
+          isSelected && "ring-2 ring-primary"
         )}
         onClick={onClick}
+        onMouseEnter={() => setShowActions(true)}
+        onMouseLeave={() => setShowActions(false)}
+        tabIndex={0}
         data-testid={`${item.type}-${item.id}`}
       >
-        <div className="col-span-6 flex items-center space-x-3">
+        <div className="bg-card border border-border rounded-lg p-3 hover:shadow-md transition-shadow h-full">
+          <div className="flex flex-col items-center text-center space-y-2 h-full">
+            {/* Thumbnail/Icon */}
+            {thumbnailUrl ? (
+              <img
+                src={thumbnailUrl}
+                alt=""
+                loading="lazy"
+                className="w-16 h-16 rounded object-cover bg-muted"
+                onError={() => setThumbnailFailed(true)}
+                data-testid={`thumbnail-${item.id}`}
+              />
+            ) : item.type === "file" && ['jpg', 'jpeg', 'png', 'gif', 'webp'].includes(item.ext?.toLowerCase()) ? (
+              <div className="w-16 h-16 bg-gradient-to-br from-blue-100 to-blue-200 dark:from-blue-900 dark:to-blue-800 rounded flex items-center justify-center">
+                {getFileIcon()}
+              </div>
+            ) : (
+              <div className="w-16 h-16 flex items-center justify-center">
+                {getFileIcon()}
+              </div>
+            )}
+            
+            {/* Info */}
+            <div className="w-full flex-1 flex flex-col justify-end">
+              <p className="text-sm font-medium truncate" title={`${item.name}${item.ext ? `.${item.ext}` : ""}`}>
+                {item.name}{item.ext ? `.${item.ext}` : ""}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {item.type === "folder" ? "Folder" : formatSize(item.size)}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Selection checkbox */}
+        <div className="absolute top-2 left-2">
           <Checkbox
             checked={isSelected}
             onCheckedChange={onSelect}
             onClick={(e) => e.stopPropagation()}
+            className={cn(
+              "transition-opacity",
+              isSelected || showActions ? "opacity-100" : "opacity-0"
+            )}
             data-testid={`checkbox-${item.id}`}
           />
-          <div className="flex items-center space-x-2">
-            <div className="w-6 h-6 flex items-center justify-center">
-              {getFileIcon()}
-            </div>
-            <span className="font-medium truncate">
-              {item.name}{item.ext ? `.${item.ext}` : ""}
-            </span>
-          </div>
         </div>
-        
-        <div className="col-span-2 flex items-center text-sm text-muted-foreground">
-          {item.type === "file" ? formatSize(item.size) : "—"}
-        </div>
-        
-        <div className="col-span-2 flex items-center text-sm text-muted-foreground">
-          {item.type === "folder" ? "Folder" : item.ext?.toUpperCase()}
-        </div>
-        
-        <div className="col-span-2 flex items-center justify-between text-sm text-muted-foreground">
-          <span>{formatDate(item.updatedAt)}</span>
+
+        {/* Quick actions */}
+        <div className={cn(
+          "absolute top-2 right-2 transition-opacity",
+          showActions ? "opacity-100" : "opacity-0"
+        )}>
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button
-                variant="ghost"
+                variant="secondary"
                 size="icon"
-                className="h-8 w-8 opacity-0 group-hover:opacity-100"
+                className="h-8 w-8 shadow-sm"
                 onClick={(e) => e.stopPropagation()}
                 data-testid={`menu-${item.id}`}
               >
@@ -150,7 +312,7 @@ export function FileItem({ item, viewMode, isSelected, onSelect, onClick }: File
                 <Download className="h-4 w-4 mr-2" />
                 Download
               </DropdownMenuItem>
-              <DropdownMenuItem>
+              <DropdownMenuItem onClick={openShare} data-testid={`menu-share-${item.id}`}>
                 <Share className="h-4 w-4 mr-2" />
                 Share
               </DropdownMenuItem>
@@ -163,6 +325,7 @@ export function FileItem({ item, viewMode, isSelected, onSelect, onClick }: File
                 <Copy className="h-4 w-4 mr-2" />
                 Copy
               </DropdownMenuItem>
+              {versionsMenuItem}
               <DropdownMenuSeparator />
               <DropdownMenuItem className="text-destructive">
                 <Trash className="h-4 w-4 mr-2" />
@@ -172,103 +335,8 @@ export function FileItem({ item, viewMode, isSelected, onSelect, onClick }: File
           </DropdownMenu>
         </div>
       </div>
-    );
-  }
-
-  return (
-    <div 
-      className={cn(
-        "group cursor-pointer focus:outline-none focus:ring-2 focus:ring-ring rounded-lg relative",
-        isSelected && "ring-2 ring-primary"
-      )}
-      onClick={onClick}
-      onMouseEnter={() => setShowActions(true)}
-      onMouseLeave={() => setShowActions(false)}
-      tabIndex={0}
-      data-testid={`${item.type}-${item.id}`}
-    >
-      <div className="bg-card border border-border rounded-lg p-3 hover:shadow-md transition-shadow h-full">
-        <div className="flex flex-col items-center text-center space-y-2 h-full">
-          {/* Thumbnail/Icon */}
-          {item.type === "file" && ['jpg', 'jpeg', 'png', 'gif', 'webp'].includes(item.ext?.toLowerCase()) ? (
-            <div className="w-16 h-16 bg-gradient-to-br from-blue-100 to-blue-200 dark:from-blue-900 dark:to-blue-800 rounded flex items-center justify-center">
-              {getFileIcon()}
-            </div>
-          ) : (
-            <div className="w-16 h-16 flex items-center justify-center">
-              {getFileIcon()}
-            </div>
-          )}
-          
-          {/* Info */}
-          <div className="w-full flex-1 flex flex-col justify-end">
-            <p className="text-sm font-medium truncate" title={`${item.name}${item.ext ? `.${item.ext}` : ""}`}>
-              {item.name}{item.ext ? `.${item.ext}` : ""}
-            </p>
-            <p className="text-xs text-muted-foreground">
-              {item.type === "folder" ? "Folder" : formatSize(item.size)}
-            </p>
-          </div>
-        </div>
-      </div>
-
-      {/* Selection checkbox */}
-      <div className="absolute top-2 left-2">
-        <Checkbox
-          checked={isSelected}
-          onCheckedChange={onSelect}
-          onClick={(e) => e.stopPropagation()}
-          className={cn(
-            "transition-opacity",
-            isSelected || showActions ? "opacity-100" : "opacity-0"
-          )}
-          data-testid={`checkbox-${item.id}`}
-        />
-      </div>
-
-      {/* Quick actions */}
-      <div className={cn(
-        "absolute top-2 right-2 transition-opacity",
-        showActions ? "opacity-100" : "opacity-0"
-      )}>
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button
-              variant="secondary"
-              size="icon"
-              className="h-8 w-8 shadow-sm"
-              onClick={(e) => e.stopPropagation()}
-              data-testid={`menu-${item.id}`}
-            >
-              <MoreHorizontal className="h-4 w-4" />
-            </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent align="end">
-            <DropdownMenuItem>
-              <Download className="h-4 w-4 mr-2" />
-              Download
-            </DropdownMenuItem>
-            <DropdownMenuItem>
-              <Share className="h-4 w-4 mr-2" />
-              Share
-            </DropdownMenuItem>
-            <DropdownMenuSeparator />
-            <DropdownMenuItem>
-              <Edit className="h-4 w-4 mr-2" />
-              Rename
-            </DropdownMenuItem>
-            <DropdownMenuItem>
-              <Copy className="h-4 w-4 mr-2" />
-              Copy
-            </DropdownMenuItem>
-            <DropdownMenuSeparator />
-            <DropdownMenuItem className="text-destructive">
-              <Trash className="h-4 w-4 mr-2" />
-              Delete
-            </DropdownMenuItem>
-          </DropdownMenuContent>
-        </DropdownMenu>
-      </div>
-    </div>
+      {versionsDialog}
+      {shareDialog}
+    </>
   );
 }
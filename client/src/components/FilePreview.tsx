@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { 
@@ -14,21 +14,28 @@ import {
   Volume2,
   VolumeX,
   Maximize,
-  FileText
+  FileText,
+  Loader2,
+  AlertCircle
 } from "lucide-react";
 import { Slider } from "@/components/ui/slider";
 import { cn } from "@/lib/utils";
+import { decryptContent } from "@/lib/vault-crypto";
 import type { File } from "@shared/schema";
 
+export type PreviewFile = Pick<File, "id" | "name" | "ext" | "mime" | "size">;
+
 interface FilePreviewProps {
-  file: File | null;
+  file: PreviewFile | null;
   isOpen: boolean;
   onClose: () => void;
-  onDownload: (fileId: string) => void;
-  onShare: (fileId: string) => void;
+  onDownload?: (fileId: string) => void;
+  onShare?: (fileId: string) => void;
+  contentUrl?: string; // defaults to the authenticated download route
+  decryptionKey?: CryptoKey; // file key for end-to-end encrypted files; content is decrypted in the browser
 }
 
-export function FilePreview({ file, isOpen, onClose, onDownload, onShare }: FilePreviewProps) {
+export function FilePreview({ file, isOpen, onClose, onDownload, onShare, contentUrl, decryptionKey }: FilePreviewProps) {
   const [imageZoom, setImageZoom] = useState(100);
   const [imageRotation, setImageRotation] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -36,6 +43,41 @@ export function FilePreview({ file, isOpen, onClose, onDownload, onShare }: File
   const [isMuted, setIsMuted] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const [decryptedUrl, setDecryptedUrl] = useState<string | null>(null);
+  const [decryptError, setDecryptError] = useState<string | null>(null);
+  const [renditionFailed, setRenditionFailed] = useState(false);
+
+  const fetchUrl = file ? contentUrl || `/api/files/${file.id}/download?inline=1` : null;
+
+  useEffect(() => {
+    setRenditionFailed(false);
+  }, [file?.id]);
+
+  // Encrypted files are fetched as ciphertext and shown from a local object URL
+  useEffect(() => {
+    setDecryptedUrl(null);
+    setDecryptError(null);
+    if (!file || !fetchUrl || !isOpen || !decryptionKey) return;
+
+    let cancelled = false;
+    let objectUrl: string | undefined;
+
+    (async () => {
+      const res = await fetch(fetchUrl, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch file");
+      const blob = await decryptContent(await res.arrayBuffer(), decryptionKey, file.mime);
+      if (cancelled) return;
+      objectUrl = URL.createObjectURL(blob);
+      setDecryptedUrl(objectUrl);
+    })().catch((error: Error) => {
+      if (!cancelled) setDecryptError(error.message);
+    });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [file?.id, file?.mime, fetchUrl, isOpen, decryptionKey]);
 
   if (!file) return null;
 
@@ -43,17 +85,32 @@ export function FilePreview({ file, isOpen, onClose, onDownload, onShare }: File
   const isVideo = file.mime.startsWith("video/");
   const isAudio = file.mime.startsWith("audio/");
   const isPDF = file.mime === "application/pdf";
+  const sourceUrl = decryptionKey ? decryptedUrl || "" : fetchUrl!;
+  // Owners' images open from the server-rendered preview instead of the full original,
+  // unless zoomed in past it
+  const imageUrl = isImage && !decryptionKey && !contentUrl && !renditionFailed && imageZoom <= 100
+    ? `/api/files/${file.id}/thumbnail?size=preview`
+    : sourceUrl;
 
   const handleDownload = () => {
-    onDownload(file.id);
+    // The server only has ciphertext, so save the copy decrypted here instead
+    if (decryptionKey) {
+      if (!decryptedUrl) return;
+      const link = document.createElement("a");
+      link.href = decryptedUrl;
+      link.download = file.ext ? `${file.name}.${file.ext}` : file.name;
+      link.click();
+      return;
+    }
+    onDownload?.(file.id);
   };
 
   const handleShare = () => {
-    onShare(file.id);
+    onShare?.(file.id);
   };
 
   const handleOpenInNewTab = () => {
-    window.open(`/api/files/${file.id}/download`, '_blank');
+    window.open(sourceUrl, '_blank');
   };
 
   const formatTime = (seconds: number) => {
@@ -76,6 +133,26 @@ export function FilePreview({ file, isOpen, onClose, onDownload, onShare }: File
   };
 
   const renderPreviewContent = () => {
+    if (decryptError) {
+      return (
+        <div className="flex-1 flex items-center justify-center p-8">
+          <div className="flex items-center space-x-2 text-destructive" data-testid="text-decrypt-error">
+            <AlertCircle className="h-5 w-5" />
+            <span>{decryptError}</span>
+          </div>
+        </div>
+      );
+    }
+
+    if (decryptionKey && !decryptedUrl) {
+      return (
+        <div className="flex-1 flex flex-col items-center justify-center p-8 space-y-2">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="text-sm text-muted-foreground">Decrypting...</p>
+        </div>
+      );
+    }
+
     if (isImage) {
       return (
         <div className="flex-1 flex items-center justify-center bg-muted/20 rounded-lg overflow-hidden">
@@ -87,9 +164,12 @@ export function FilePreview({ file, isOpen, onClose, onDownload, onShare }: File
             }}
           >
             <img
-              src={`/api/files/${file.id}/download`}
+              src={imageUrl}
               alt={file.name}
               className="max-w-full max-h-full object-contain"
+              onError={() => {
+                if (imageUrl !== sourceUrl) setRenditionFailed(true);
+              }}
               data-testid="image-preview"
             />
           </div>
@@ -102,7 +182,7 @@ export function FilePreview({ file, isOpen, onClose, onDownload, onShare }: File
         <div className="flex-1 flex flex-col">
           <div className="flex-1 flex items-center justify-center bg-black rounded-lg overflow-hidden">
             <video
-              src={`/api/files/${file.id}/download`}
+              src={sourceUrl}
               className="max-w-full max-h-full"
               controls={false}
               data-testid="video-preview"
@@ -241,7 +321,7 @@ export function FilePreview({ file, isOpen, onClose, onDownload, onShare }: File
           </div>
           
           <audio
-            src={`/api/files/${file.id}/download`}
+            src={sourceUrl}
             className="hidden"
             data-testid="audio-element"
           />
@@ -285,10 +365,12 @@ export function FilePreview({ file, isOpen, onClose, onDownload, onShare }: File
             <p className="text-muted-foreground mb-4">
               This file type cannot be previewed inline
             </p>
-            <Button onClick={handleDownload} data-testid="button-download-file">
-              <Download className="h-4 w-4 mr-2" />
-              Download to view
-            </Button>
+            {onDownload && (
+              <Button onClick={handleDownload} data-testid="button-download-file">
+                <Download className="h-4 w-4 mr-2" />
+                Download to view
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -348,23 +430,27 @@ export function FilePreview({ file, isOpen, onClose, onDownload, onShare }: File
                 </>
               )}
               
-              <Button
-                variant="outline"
-                size="icon"
-                onClick={handleDownload}
-                data-testid="button-download-preview"
-              >
-                <Download className="h-4 w-4" />
-              </Button>
+              {onDownload && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={handleDownload}
+                  data-testid="button-download-preview"
+                >
+                  <Download className="h-4 w-4" />
+                </Button>
+              )}
               
-              <Button
-                variant="outline"
-                size="icon"
-                onClick={handleShare}
-                data-testid="button-share-preview"
-              >
-                <Share className="h-4 w-4" />
-              </Button>
+              {onShare && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={handleShare}
+                  data-testid="button-share-preview"
+                >
+                  <Share className="h-4 w-4" />
+                </Button>
+              )}
               
               <Button
                 variant="outline"
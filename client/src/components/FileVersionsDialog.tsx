@@ -0,0 +1,243 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CloudUpload, Download, History, Loader2, RotateCcw, Trash } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { addUploads } from "@/hooks/use-uploads";
+import { apiRequest } from "@/lib/queryClient";
+import type { File, FileVersion } from "@shared/schema";
+
+interface FileVersionSummary extends Omit<FileVersion, "createdAt"> {
+  createdAt: string;
+  isCurrent: boolean;
+  sizeDelta: number | null;
+  contentChanged: boolean | null;
+}
+
+interface FileVersionsDialogProps {
+  file: Pick<File, "id" | "name" | "ext" | "folderId" | "encryption"> | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function FileVersionsDialog({ file, isOpen, onClose }: FileVersionsDialogProps) {
+  const [deletingVersion, setDeletingVersion] = useState<FileVersionSummary | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: versions = [], isLoading } = useQuery<FileVersionSummary[]>({
+    queryKey: ["/api/files", file?.id, "versions"],
+    queryFn: async () => {
+      const res = await fetch(`/api/files/${file!.id}/versions`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch versions");
+      return res.json();
+    },
+    enabled: isOpen && !!file,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (versionId: string) => {
+      await apiRequest("POST", `/api/files/${file!.id}/versions/${versionId}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      toast({
+        title: "Version restored",
+        description: "The selected version is now the current file.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to restore version",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (versionId: string) => {
+      await apiRequest("DELETE", `/api/files/${file!.id}/versions/${versionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/files", file?.id, "versions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/me/usage"] });
+      setDeletingVersion(null);
+      toast({
+        title: "Version deleted",
+        description: "The version has been permanently removed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete version",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (selected && file) {
+      addUploads([selected], file.folderId, file.id);
+      toast({
+        title: "Upload started",
+        description: "The new version will appear here once the upload completes.",
+      });
+    }
+    event.target.value = "";
+  };
+
+  const handleDownload = (versionId: string) => {
+    window.location.href = `/api/files/${file!.id}/versions/${versionId}/download`;
+  };
+
+  const formatSize = (bytes: number) => {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let size = Math.abs(bytes);
+    let unitIndex = 0;
+
+    while (size >= 1024 && unitIndex < units.length - 1) {
+      size /= 1024;
+      unitIndex++;
+    }
+
+    return `${size.toFixed(1)} ${units[unitIndex]}`;
+  };
+
+  const describeChange = (version: FileVersionSummary) => {
+    if (version.sizeDelta === null) return "Original upload";
+    if (version.contentChanged === false) return "Identical to previous version";
+    if (version.sizeDelta === 0) return "Same size as previous version";
+    return `${version.sizeDelta > 0 ? "+" : "-"}${formatSize(version.sizeDelta)} vs previous version`;
+  };
+
+  if (!file) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg" data-testid="file-versions-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <History className="h-5 w-5" />
+            <span>Version history</span>
+          </DialogTitle>
+          <DialogDescription>
+            Previous versions of "{file.name}{file.ext ? `.${file.ext}` : ""}"
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          onChange={handleFileSelect}
+          data-testid="input-upload-version"
+        />
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="divide-y divide-border max-h-96 overflow-auto">
+            {versions.map((version) => (
+              <div key={version.id} className="flex items-center justify-between py-3" data-testid={`version-${version.id}`}>
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">Version {version.versionNumber}</span>
+                    {version.isCurrent && <Badge variant="secondary">Current</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {new Date(version.createdAt).toLocaleString()} · {formatSize(version.size)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{describeChange(version)}</p>
+                </div>
+
+                <div className="flex items-center space-x-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => handleDownload(version.id)}
+                    data-testid={`button-download-version-${version.id}`}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  {!version.isCurrent && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => restoreMutation.mutate(version.id)}
+                        disabled={restoreMutation.isPending}
+                        data-testid={`button-restore-version-${version.id}`}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => setDeletingVersion(version)}
+                        data-testid={`button-delete-version-${version.id}`}
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Encrypted files can't be matched to a new upload, so they have no further versions */}
+        {!file.encryption && (
+          <div className="flex justify-end pt-2">
+            <Button onClick={() => fileInputRef.current?.click()} data-testid="button-upload-version">
+              <CloudUpload className="h-4 w-4 mr-2" />
+              Upload new version
+            </Button>
+          </div>
+        )}
+
+        <AlertDialog open={!!deletingVersion} onOpenChange={(open) => !open && setDeletingVersion(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete version {deletingVersion?.versionNumber}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This version will be permanently removed from storage. This cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel data-testid="button-cancel-delete-version">Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => deletingVersion && deleteMutation.mutate(deletingVersion.id)}
+                disabled={deleteMutation.isPending}
+                data-testid="button-confirm-delete-version"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
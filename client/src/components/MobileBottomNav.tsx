@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { 
   Home, 
@@ -19,6 +20,7 @@ import {
   SheetTrigger,
 } from "@/components/ui/sheet";
 import { cn } from "@/lib/utils";
+import { addUploads } from "@/hooks/use-uploads";
 
 interface MobileBottomNavProps {
   currentFolder: string | null;
@@ -27,13 +29,15 @@ interface MobileBottomNavProps {
 
 export function MobileBottomNav({ currentFolder, onFolderChange }: MobileBottomNavProps) {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [location, navigate] = useLocation();
+  const isSharedView = location === "/shared";
 
   const navItems = [
     {
       id: "files",
       label: "Files",
       icon: Home,
-      active: true,
+      active: !isSharedView,
       onClick: () => onFolderChange(null),
       testId: "nav-files"
     },
@@ -58,8 +62,8 @@ export function MobileBottomNav({ currentFolder, onFolderChange }: MobileBottomN
       id: "shared",
       label: "Shared",
       icon: Share,
-      active: false,
-      onClick: () => console.log("Shared clicked"),
+      active: isSharedView,
+      onClick: () => navigate("/shared"),
       testId: "nav-shared"
     },
     {
@@ -82,6 +86,12 @@ export function MobileBottomNav({ currentFolder, onFolderChange }: MobileBottomN
         const input = document.createElement("input");
         input.type = "file";
         input.multiple = true;
+        input.onchange = () => {
+          const files = Array.from(input.files || []);
+          if (files.length > 0) {
+            addUploads(files, currentFolder);
+          }
+        };
         input.click();
         setIsMenuOpen(false);
       },
@@ -199,7 +209,7 @@ export function MobileBottomNav({ currentFolder, onFolderChange }: MobileBottomN
             
             <nav className="flex-1 p-4 space-y-2">
               <Button
-                variant="secondary"
+                variant={isSharedView ? "ghost" : "secondary"}
                 className="w-full justify-start"
                 onClick={() => onFolderChange(null)}
                 data-testid="mobile-nav-my-files"
@@ -209,8 +219,9 @@ export function MobileBottomNav({ currentFolder, onFolderChange }: MobileBottomN
               </Button>
               
               <Button
-                variant="ghost"
+                variant={isSharedView ? "secondary" : "ghost"}
                 className="w-full justify-start"
+                onClick={() => navigate("/shared")}
                 data-testid="mobile-nav-shared"
               >
                 <Share className="h-4 w-4 mr-3" />
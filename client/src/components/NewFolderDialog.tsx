@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertTriangle, FolderPlus, Lock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { setFolderKey } from "@/hooks/use-vault-keys";
+import { apiRequest, getNameConflict } from "@/lib/queryClient";
+import { createFolderEncryption } from "@/lib/vault-crypto";
+import type { Folder, NameConflict } from "@shared/schema";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface NewFolderDialogProps {
+  parentId: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function NewFolderDialog({ parentId, isOpen, onClose }: NewFolderDialogProps) {
+  const [name, setName] = useState("");
+  const [encrypted, setEncrypted] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [conflict, setConflict] = useState<NameConflict | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const createFolderMutation = useMutation({
+    // "rename" keeps both under a free "name (n)"; "overwrite" uses the existing folder
+    mutationFn: async (onConflict: "fail" | "rename" | "overwrite" = "fail") => {
+      // The passphrase never leaves the browser; the server only gets the wrapped folder key
+      const sealed = encrypted ? await createFolderEncryption(passphrase) : undefined;
+      const res = await apiRequest("POST", "/api/folders", {
+        name,
+        parentId: parentId || undefined,
+        encryption: sealed?.encryption,
+        onConflict,
+      });
+      const folder: Folder = await res.json();
+      if (sealed) {
+        setFolderKey(folder.id, sealed.key);
+      }
+      return folder;
+    },
+    onSuccess: (folder, onConflict) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      toast({
+        title: onConflict === "overwrite" ? "Using existing folder" : "Folder created",
+        description: encrypted
+          ? "Keep the passphrase safe: without it the folder's contents cannot be recovered."
+          : onConflict === "overwrite" ? `"${folder.name}" already existed and was kept.` : `"${folder.name}" has been created.`,
+      });
+      handleClose();
+    },
+    onError: (error: Error) => {
+      const existing = getNameConflict(error);
+      if (existing) {
+        setConflict(existing);
+        return;
+      }
+      toast({
+        title: "Failed to create folder",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setName("");
+    setEncrypted(false);
+    setPassphrase("");
+    setConfirmPassphrase("");
+    setConflict(null);
+    onClose();
+  };
+
+  const passphraseError = !encrypted
+    ? null
+    : passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+      : passphrase !== confirmPassphrase
+        ? "Passphrases do not match"
+        : null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md" data-testid="new-folder-dialog">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FolderPlus className="h-5 w-5" />
+            <span>New folder</span>
+          </DialogTitle>
+          <DialogDescription>Create a folder in the current location.</DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createFolderMutation.mutate("fail");
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="folder-name">Name</Label>
+            <Input
+              id="folder-name"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setConflict(null);
+              }}
+              maxLength={255}
+              autoFocus
+              data-testid="input-folder-name"
+            />
+          </div>
+
+          {conflict && (
+            <div className="rounded-md border border-destructive/50 p-3 space-y-3" data-testid="folder-name-conflict">
+              <p className="flex items-center space-x-2 text-sm">
+                <AlertTriangle className="h-4 w-4 text-destructive" />
+                <span>A {conflict.type} named "{conflict.name}" already exists here.</span>
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setConflict(null);
+                    document.getElementById("folder-name")?.focus();
+                  }}
+                  data-testid="button-conflict-rename"
+                >
+                  Rename
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  disabled={createFolderMutation.isPending}
+                  onClick={() => createFolderMutation.mutate("rename")}
+                  data-testid="button-conflict-keep-both"
+                >
+                  Keep both
+                </Button>
+                {/* An empty folder replacing an existing one is a merge; encrypted folders can't merge */}
+                {conflict.type === "folder" && !encrypted && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    disabled={createFolderMutation.isPending}
+                    onClick={() => createFolderMutation.mutate("overwrite")}
+                    data-testid="button-conflict-replace"
+                  >
+                    Use existing
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-1">
+              <Label htmlFor="folder-encrypted" className="flex items-center space-x-2">
+                <Lock className="h-4 w-4" />
+                <span>End-to-end encryption</span>
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Files and names are encrypted in your browser. The server cannot read them.
+              </p>
+            </div>
+            <Switch
+              id="folder-encrypted"
+              checked={encrypted}
+              onCheckedChange={setEncrypted}
+              data-testid="switch-folder-encrypted"
+            />
+          </div>
+
+          {encrypted && (
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="folder-passphrase">Passphrase</Label>
+                <Input
+                  id="folder-passphrase"
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  data-testid="input-folder-passphrase"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="folder-passphrase-confirm">Confirm passphrase</Label>
+                <Input
+                  id="folder-passphrase-confirm"
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  data-testid="input-folder-passphrase-confirm"
+                />
+              </div>
+              {passphrase && passphraseError && (
+                <p className="text-sm text-destructive">{passphraseError}</p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose} data-testid="button-cancel-new-folder">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={!name.trim() || !!passphraseError || createFolderMutation.isPending}
+              data-testid="button-create-folder"
+            >
+              {createFolderMutation.isPending ? "Creating..." : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,10 +6,11 @@ import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Copy, Share, Check, Eye, Download, Lock, Calendar } from "lucide-react";
+import { Copy, Share, Check, Eye, Download, Lock, Calendar, KeyRound } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { exportKeyForLink } from "@/lib/vault-crypto";
 import type { File, Folder } from "@shared/schema";
 
 interface ShareDialogProps {
@@ -17,9 +18,11 @@ interface ShareDialogProps {
   itemType: "file" | "folder" | null;
   isOpen: boolean;
   onClose: () => void;
+  encrypted?: boolean; // end-to-end encrypted item; the link has to carry its key
+  shareKey?: CryptoKey; // file or folder key, appended to the link as a URL fragment
 }
 
-export function ShareDialog({ item, itemType, isOpen, onClose }: ShareDialogProps) {
+export function ShareDialog({ item, itemType, isOpen, onClose, encrypted, shareKey }: ShareDialogProps) {
   const [shareLink, setShareLink] = useState("");
   const [permission, setPermission] = useState("view");
   const [expiry, setExpiry] = useState("never");
@@ -38,7 +41,12 @@ export function ShareDialog({ item, itemType, isOpen, onClose }: ShareDialogProp
       allowDownload: boolean;
     }) => {
       const res = await apiRequest("POST", "/api/shares", data);
-      return res.json();
+      const share = await res.json();
+      // Fragments are never sent to the server, so the key stays between the sender and recipient
+      if (shareKey) {
+        share.url = `${share.url}#key=${await exportKeyForLink(shareKey)}`;
+      }
+      return share;
     },
     onSuccess: (data) => {
       setShareLink(data.url);
@@ -139,6 +147,17 @@ export function ShareDialog({ item, itemType, isOpen, onClose }: ShareDialogProp
         </DialogHeader>
 
         <div className="space-y-6">
+          {encrypted && (
+            <div className="flex items-start space-x-2 rounded-lg bg-muted/50 p-3 text-sm" data-testid="text-share-encrypted">
+              <KeyRound className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>
+                {shareKey
+                  ? "This link includes the decryption key. Anyone with the full link can read the content, and the key is not shown again in your shared links."
+                  : "Unlock this encrypted folder before sharing it."}
+              </span>
+            </div>
+          )}
+
           {/* Share Link Display */}
           {linkCreated && shareLink && (
             <div className="space-y-2">
@@ -254,7 +273,9 @@ export function ShareDialog({ item, itemType, isOpen, onClose }: ShareDialogProp
             {!linkCreated && (
               <Button
                 onClick={handleCreateLink}
-                disabled={createShareMutation.isPending || (passwordEnabled && !password)}
+                disabled={
+                  createShareMutation.isPending || (passwordEnabled && !password) || (encrypted && !shareKey)
+                }
                 data-testid="button-create-link"
               >
                 {createShareMutation.isPending ? "Creating..." : "Create Link"}
@@ -0,0 +1,388 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Copy, Edit, FileText, Folder, Loader2, Lock, Share, Trash } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+export interface ShareLinkSummary {
+  id: string;
+  url: string;
+  resourceType: "file" | "folder";
+  resourceId: string;
+  resourceName: string | null;
+  expiresAt: string | null;
+  expired: boolean;
+  allowDownload: boolean;
+  passwordProtected: boolean;
+  createdAt: string;
+}
+
+export function SharedLinks() {
+  const [editingLink, setEditingLink] = useState<ShareLinkSummary | null>(null);
+  const [revokingLink, setRevokingLink] = useState<ShareLinkSummary | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: links = [], isLoading } = useQuery<ShareLinkSummary[]>({
+    queryKey: ["/api/shares"],
+    queryFn: async () => {
+      const res = await fetch("/api/shares", { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch share links");
+      return res.json();
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/shares/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shares"] });
+      setRevokingLink(null);
+      toast({
+        title: "Link revoked",
+        description: "The share link no longer works.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to revoke link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyToClipboard = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Copied to clipboard",
+        description: "Share link has been copied to your clipboard.",
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to copy",
+        description: "Could not copy link to clipboard.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (links.length === 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <div className="w-24 h-24 mx-auto bg-muted rounded-full flex items-center justify-center">
+            <Share className="h-10 w-10 text-muted-foreground" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold">No shared links</h3>
+            <p className="text-muted-foreground">Links you create to share files and folders appear here</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="min-w-full">
+        {/* List header */}
+        <div className="grid grid-cols-12 gap-4 p-4 border-b border-border text-sm font-medium text-muted-foreground">
+          <div className="col-span-5">Name</div>
+          <div className="col-span-2">Access</div>
+          <div className="col-span-2">Expires</div>
+          <div className="col-span-3 text-right">Actions</div>
+        </div>
+
+        <div className="divide-y divide-border">
+          {links.map((link) => (
+            <div key={link.id} className="grid grid-cols-12 gap-4 p-4 hover:bg-accent" data-testid={`share-link-${link.id}`}>
+              <div className="col-span-5 flex items-center space-x-2 min-w-0">
+                {link.resourceType === "folder" ? (
+                  <Folder className="h-5 w-5 text-yellow-500 flex-shrink-0" />
+                ) : (
+                  <FileText className="h-5 w-5 text-blue-500 flex-shrink-0" />
+                )}
+                <span className="font-medium truncate">
+                  {link.resourceName || "Deleted item"}
+                </span>
+                {link.passwordProtected && (
+                  <Lock className="h-3 w-3 text-muted-foreground flex-shrink-0" aria-label="Password protected" />
+                )}
+              </div>
+
+              <div className="col-span-2 flex items-center text-sm text-muted-foreground">
+                {link.allowDownload ? "Download" : "View only"}
+              </div>
+
+              <div className="col-span-2 flex items-center text-sm text-muted-foreground">
+                {link.expired ? (
+                  <Badge variant="destructive">Expired</Badge>
+                ) : link.expiresAt ? (
+                  formatDate(link.expiresAt)
+                ) : (
+                  "Never"
+                )}
+              </div>
+
+              <div className="col-span-3 flex items-center justify-end space-x-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => copyToClipboard(link.url)}
+                  data-testid={`button-copy-${link.id}`}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setEditingLink(link)}
+                  data-testid={`button-edit-${link.id}`}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive hover:text-destructive"
+                  onClick={() => setRevokingLink(link)}
+                  data-testid={`button-revoke-${link.id}`}
+                >
+                  <Trash className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <EditShareLinkDialog link={editingLink} onClose={() => setEditingLink(null)} />
+
+      <AlertDialog open={!!revokingLink} onOpenChange={(open) => !open && setRevokingLink(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke share link?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Anyone with the link to "{revokingLink?.resourceName || "this item"}" will lose access immediately.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-revoke">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => revokingLink && revokeMutation.mutate(revokingLink.id)}
+              disabled={revokeMutation.isPending}
+              data-testid="button-confirm-revoke"
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+interface EditShareLinkDialogProps {
+  link: ShareLinkSummary | null;
+  onClose: () => void;
+}
+
+function EditShareLinkDialog({ link, onClose }: EditShareLinkDialogProps) {
+  const [allowDownload, setAllowDownload] = useState<boolean | null>(null);
+  const [expiry, setExpiry] = useState("keep");
+  const [passwordMode, setPasswordMode] = useState("keep");
+  const [password, setPassword] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: {
+      expiresAt?: string | null;
+      allowDownload?: boolean;
+      password?: string | null;
+    }) => {
+      const res = await apiRequest("PATCH", `/api/shares/${link!.id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shares"] });
+      toast({
+        title: "Share link updated",
+        description: "Your changes have been saved.",
+      });
+      handleClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update share link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setAllowDownload(null);
+    setExpiry("keep");
+    setPasswordMode("keep");
+    setPassword("");
+    onClose();
+  };
+
+  const handleSave = () => {
+    if (!link) return;
+
+    const data: { expiresAt?: string | null; allowDownload?: boolean; password?: string | null } = {};
+
+    if (allowDownload !== null && allowDownload !== link.allowDownload) {
+      data.allowDownload = allowDownload;
+    }
+
+    const day = 24 * 60 * 60 * 1000;
+    switch (expiry) {
+      case "never":
+        data.expiresAt = null;
+        break;
+      case "1day":
+        data.expiresAt = new Date(Date.now() + day).toISOString();
+        break;
+      case "7days":
+        data.expiresAt = new Date(Date.now() + 7 * day).toISOString();
+        break;
+      case "30days":
+        data.expiresAt = new Date(Date.now() + 30 * day).toISOString();
+        break;
+    }
+
+    if (passwordMode === "set") {
+      data.password = password;
+    } else if (passwordMode === "remove") {
+      data.password = null;
+    }
+
+    updateMutation.mutate(data);
+  };
+
+  if (!link) return null;
+
+  const downloadEnabled = allowDownload ?? link.allowDownload;
+
+  return (
+    <Dialog open={!!link} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md" data-testid="edit-share-dialog">
+        <DialogHeader>
+          <DialogTitle>Edit share link</DialogTitle>
+          <DialogDescription>
+            Change how "{link.resourceName || "this item"}" is shared.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="edit-allow-download">Allow downloads</Label>
+            <Switch
+              id="edit-allow-download"
+              checked={downloadEnabled}
+              onCheckedChange={setAllowDownload}
+              data-testid="switch-edit-allow-download"
+            />
+          </div>
+
+          <div className="space-y-3">
+            <Label>Link expires</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger data-testid="select-edit-expiry">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="keep">
+                  Keep current ({link.expiresAt ? new Date(link.expiresAt).toLocaleDateString() : "never"})
+                </SelectItem>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="1day">1 day from now</SelectItem>
+                <SelectItem value="7days">7 days from now</SelectItem>
+                <SelectItem value="30days">30 days from now</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-3">
+            <Label className="flex items-center space-x-2">
+              <Lock className="h-4 w-4" />
+              <span>Password protection</span>
+            </Label>
+            <Select value={passwordMode} onValueChange={setPasswordMode}>
+              <SelectTrigger data-testid="select-edit-password">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="keep">
+                  Keep current ({link.passwordProtected ? "protected" : "none"})
+                </SelectItem>
+                <SelectItem value="set">Set new password</SelectItem>
+                {link.passwordProtected && <SelectItem value="remove">Remove password</SelectItem>}
+              </SelectContent>
+            </Select>
+
+            {passwordMode === "set" && (
+              <Input
+                type="password"
+                placeholder="Enter password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                data-testid="input-edit-password"
+              />
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button variant="outline" onClick={handleClose} data-testid="button-cancel-edit-share">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={updateMutation.isPending || (passwordMode === "set" && !password)}
+              data-testid="button-save-share"
+            >
+              {updateMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { useTheme } from "@/hooks/use-theme";
 import { Button } from "@/components/ui/button";
@@ -15,6 +16,8 @@ export function Sidebar({ currentFolder, onFolderChange }: SidebarProps) {
   const { user, logoutMutation } = useAuth();
   const { theme, toggleTheme } = useTheme();
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
+  const [location, navigate] = useLocation();
+  const isSharedView = location === "/shared";
 
   const { data: usage } = useQuery({
     queryKey: ["/api/me/usage"],
@@ -113,7 +116,17 @@ export function Sidebar({ currentFolder, onFolderChange }: SidebarProps) {
                 {formatSize(usage.totalSize)} / {formatSize(usage.quota)}
               </span>
             </div>
-            <Progress value={usage.percentage} className="h-2" />
+            <Progress value={Math.min(usage.percentage, 100)} className="h-2" />
+            {usage.warningThreshold !== null && (
+              <p
+                className={`text-xs mt-1 ${usage.percentage >= 100 ? "text-destructive" : "text-amber-600 dark:text-amber-400"}`}
+                data-testid="text-storage-warning"
+              >
+                {usage.percentage >= 100
+                  ? "Storage full. Free up space to upload more files."
+                  : `You've used ${usage.percentage}% of your storage.`}
+              </p>
+            )}
           </div>
         )}
       </div>
@@ -122,7 +135,7 @@ export function Sidebar({ currentFolder, onFolderChange }: SidebarProps) {
       <nav className="flex-1 p-4 space-y-2 overflow-y-auto">
         <div className="space-y-1">
           <Button
-            variant={currentFolder === null ? "secondary" : "ghost"}
+            variant={currentFolder === null && !isSharedView ? "secondary" : "ghost"}
             className="w-full justify-start"
             onClick={() => onFolderChange(null)}
             data-testid="button-my-files"
@@ -131,7 +144,12 @@ export function Sidebar({ currentFolder, onFolderChange }: SidebarProps) {
             My Files
           </Button>
           
-          <Button variant="ghost" className="w-full justify-start" data-testid="button-shared">
+          <Button
+            variant={isSharedView ? "secondary" : "ghost"}
+            className="w-full justify-start"
+            onClick={() => navigate("/shared")}
+            data-testid="button-shared"
+          >
             <Share className="h-4 w-4 mr-3" />
             Shared
           </Button>
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { Fragment, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -18,6 +19,9 @@ import {
   Trash
 } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { addUploads } from "@/hooks/use-uploads";
+import { fetchFolderPath, folderPathQueryKey } from "@/hooks/use-folder-route";
+import { NewFolderDialog } from "./NewFolderDialog";
 import { 
   DropdownMenu,
   DropdownMenuContent,
@@ -47,8 +51,24 @@ export function TopBar({
   const [showMobileSearch, setShowMobileSearch] = useState(false);
   const [sortBy, setSortBy] = useState("name");
   const [filterType, setFilterType] = useState("all");
+  const [showNewFolder, setShowNewFolder] = useState(false);
   const isMobile = useIsMobile();
 
+  const { data: ancestors = [] } = useQuery({
+    queryKey: folderPathQueryKey(currentFolder),
+    queryFn: () => fetchFolderPath(currentFolder!),
+    enabled: !!currentFolder,
+  });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    if (files.length > 0) {
+      addUploads(files, currentFolder);
+    }
+    event.target.value = "";
+  };
+
   const fileTypeFilters = [
     { value: "all", label: "All" },
     { value: "image", label: "Images" },
@@ -97,18 +117,20 @@ export function TopBar({
             <Home className="h-4 w-4 mr-1" />
             Home
           </Button>
-          {currentFolder && (
-            <>
+          {ancestors.map((folder, i) => (
+            <Fragment key={folder.id}>
               <ChevronRight className="h-4 w-4 text-muted-foreground" />
               <Button
                 variant="ghost"
                 size="sm"
-                className="h-auto p-1 text-primary"
+                className={`h-auto p-1 ${i === ancestors.length - 1 ? "text-primary" : ""}`}
+                onClick={() => onFolderChange(folder.id)}
+                data-testid={`breadcrumb-${folder.id}`}
               >
-                Current Folder
+                {folder.name}
               </Button>
-            </>
-          )}
+            </Fragment>
+          ))}
         </nav>
 
         {/* Search and Actions */}
@@ -153,11 +175,28 @@ export function TopBar({
           <div className="flex items-center space-x-2">
             {!isMobile && (
               <>
-                <Button className="flex items-center space-x-2" data-testid="button-upload">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  className="hidden"
+                  onChange={handleFileSelect}
+                  data-testid="input-upload-topbar"
+                />
+                <Button
+                  className="flex items-center space-x-2"
+                  onClick={() => fileInputRef.current?.click()}
+                  data-testid="button-upload"
+                >
                   <Upload className="h-4 w-4" />
                   <span>Upload</span>
                 </Button>
-                <Button variant="outline" className="flex items-center space-x-2" data-testid="button-new-folder">
+                <Button
+                  variant="outline"
+                  className="flex items-center space-x-2"
+                  onClick={() => setShowNewFolder(true)}
+                  data-testid="button-new-folder"
+                >
                   <FolderPlus className="h-4 w-4" />
                   <span>New Folder</span>
                 </Button>
@@ -236,6 +275,12 @@ export function TopBar({
           </div>
         </div>
       </div>
+
+      <NewFolderDialog
+        parentId={currentFolder}
+        isOpen={showNewFolder}
+        onClose={() => setShowNewFolder(false)}
+      />
     </header>
   );
 }
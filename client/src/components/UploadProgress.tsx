@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -11,19 +11,11 @@ import {
   Check, 
   AlertCircle,
   Pause,
-  Play
+  Play,
+  RotateCw
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-
-interface UploadItem {
-  id: string;
-  name: string;
-  size: number;
-  uploadedBytes: number;
-  status: "pending" | "uploading" | "completed" | "error" | "paused";
-  error?: string;
-  type: string;
-}
+import { useUploads, type UploadItem } from "@/hooks/use-uploads";
 
 interface UploadProgressProps {
   className?: string;
@@ -31,30 +23,16 @@ interface UploadProgressProps {
 
 export function UploadProgress({ className }: UploadProgressProps) {
   const [isVisible, setIsVisible] = useState(false);
-  const [uploads, setUploads] = useState<UploadItem[]>([]);
+  const { uploads, pauseUpload, resumeUpload, cancelUpload, clearFinishedUploads } = useUploads();
+  const previousCount = useRef(uploads.length);
 
-  // Mock upload state for demonstration - in real app this would come from upload context/store
+  // Reopen the panel whenever new files are queued
   useEffect(() => {
-    // Simulate upload progress updates
-    const interval = setInterval(() => {
-      setUploads(current => 
-        current.map(upload => {
-          if (upload.status === "uploading" && upload.uploadedBytes < upload.size) {
-            const increment = Math.min(upload.size * 0.1, upload.size - upload.uploadedBytes);
-            const newUploaded = upload.uploadedBytes + increment;
-            return {
-              ...upload,
-              uploadedBytes: newUploaded,
-              status: newUploaded >= upload.size ? "completed" : "uploading"
-            };
-          }
-          return upload;
-        })
-      );
-    }, 500);
-
-    return () => clearInterval(interval);
-  }, []);
+    if (uploads.length > previousCount.current) {
+      setIsVisible(true);
+    }
+    previousCount.current = uploads.length;
+  }, [uploads.length]);
 
   const formatSize = (bytes: number) => {
     const units = ['B', 'KB', 'MB', 'GB'];
@@ -104,20 +82,19 @@ export function UploadProgress({ className }: UploadProgressProps) {
   const overallProgress = totalBytes > 0 ? Math.round((uploadedBytes / totalBytes) * 100) : 0;
 
   const handleCancel = (id: string) => {
-    setUploads(current => current.filter(u => u.id !== id));
+    cancelUpload(id);
   };
 
-  const handlePauseResume = (id: string) => {
-    setUploads(current => 
-      current.map(u => 
-        u.id === id 
-          ? { ...u, status: u.status === "paused" ? "uploading" : "paused" }
-          : u
-      )
-    );
+  const handlePauseResume = (id: string, status: UploadItem['status']) => {
+    if (status === "paused" || status === "error") {
+      resumeUpload(id);
+    } else {
+      pauseUpload(id);
+    }
   };
 
   const handleClose = () => {
+    clearFinishedUploads();
     setIsVisible(false);
   };
 
@@ -129,7 +106,9 @@ export function UploadProgress({ className }: UploadProgressProps) {
     <Card className={cn("fixed bottom-4 right-4 w-80 max-h-96 z-40 shadow-lg", className)}>
       <CardHeader className="pb-3">
         <div className="flex items-center justify-between">
-          <CardTitle className="text-base">Uploading Files</CardTitle>
+          <CardTitle className="text-base">
+            {completedFiles === totalFiles ? "Uploads Complete" : "Uploading Files"}
+          </CardTitle>
           <Button
             variant="ghost"
             size="icon"
@@ -174,7 +153,8 @@ export function UploadProgress({ className }: UploadProgressProps) {
                     <span data-testid={`upload-status-${upload.id}`}>
                       {upload.status === "completed" ? "Complete" : 
                        upload.status === "error" ? "Error" :
-                       upload.status === "paused" ? "Paused" : `${progress}%`}
+                       upload.status === "paused" ? "Paused" :
+                       upload.status === "pending" ? "Queued" : `${progress}%`}
                     </span>
                   </div>
                   
@@ -199,7 +179,7 @@ export function UploadProgress({ className }: UploadProgressProps) {
                       variant="ghost"
                       size="icon"
                       className="h-6 w-6"
-                      onClick={() => handlePauseResume(upload.id)}
+                      onClick={() => handlePauseResume(upload.id, upload.status)}
                       data-testid={`button-pause-${upload.id}`}
                     >
                       <Pause className="h-3 w-3" />
@@ -211,12 +191,24 @@ export function UploadProgress({ className }: UploadProgressProps) {
                       variant="ghost"
                       size="icon"
                       className="h-6 w-6"
-                      onClick={() => handlePauseResume(upload.id)}
+                      onClick={() => handlePauseResume(upload.id, upload.status)}
                       data-testid={`button-resume-${upload.id}`}
                     >
                       <Play className="h-3 w-3" />
                     </Button>
                   )}
+
+                  {upload.status === "error" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => handlePauseResume(upload.id, upload.status)}
+                      data-testid={`button-retry-${upload.id}`}
+                    >
+                      <RotateCw className="h-3 w-3" />
+                    </Button>
+                  )}
                   
                   {(upload.status === "pending" || upload.status === "uploading" || upload.status === "paused" || upload.status === "error") && (
                     <Button
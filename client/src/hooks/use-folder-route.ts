@@ -0,0 +1,69 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useRoute } from "wouter";
+import { queryClient } from "@/lib/queryClient";
+import type { Folder } from "@shared/schema";
+
+// Folders are addressed by their path of names, e.g. /files/Projects/2024/Q1, so the
+// URL can be bookmarked and back/forward move between folders
+const FOLDER_ROUTE = "/files/*";
+
+export function folderUrl(ancestors: Folder[]): string {
+  if (ancestors.length === 0) {
+    return "/";
+  }
+  return "/files/" + ancestors.map((folder) => encodeURIComponent(folder.name)).join("/");
+}
+
+export async function fetchFolderPath(folderId: string): Promise<Folder[]> {
+  const res = await fetch(`/api/folders/${folderId}/path`, { credentials: "include" });
+  if (!res.ok) throw new Error("Failed to fetch folder path");
+  return res.json();
+}
+
+export function folderPathQueryKey(folderId: string | null) {
+  return ["/api/folders", folderId, "path"];
+}
+
+// The folder the URL points at, and navigation that keeps the URL in step
+export function useFolderRoute() {
+  const [, navigate] = useLocation();
+  const [isFolderRoute] = useRoute(FOLDER_ROUTE);
+  // Segments come from the raw pathname and stay encoded until the server has split
+  // them: the router's params are already partly decoded, and a decoded name may
+  // itself contain "/" or "%"
+  const segments = isFolderRoute
+    ? window.location.pathname.slice("/files/".length).split("/").filter((segment) => segment.length > 0)
+    : [];
+  const path = "/" + segments.join("/");
+
+  const { data: folder, isLoading, isError } = useQuery<Folder>({
+    queryKey: ["/api/folders", "resolve", path],
+    queryFn: async () => {
+      const res = await fetch(`/api/folders/resolve?path=${encodeURIComponent(path)}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Folder not found");
+      return res.json();
+    },
+    enabled: segments.length > 0,
+  });
+
+  const openFolder = async (folderId: string | null) => {
+    if (!folderId) {
+      navigate("/");
+      return;
+    }
+    const ancestors = await queryClient.fetchQuery({
+      queryKey: folderPathQueryKey(folderId),
+      queryFn: () => fetchFolderPath(folderId),
+    });
+    navigate(folderUrl(ancestors));
+  };
+
+  return {
+    currentFolder: folder?.id ?? null,
+    isResolving: segments.length > 0 && isLoading,
+    notFound: segments.length > 0 && isError,
+    openFolder,
+  };
+}
@@ -0,0 +1,437 @@
+import * as React from "react"
+import { apiRequest, queryClient } from "@/lib/queryClient"
+import { createFileEncryption, encryptMetadata, encryptedSize, encryptRange } from "@/lib/vault-crypto"
+import { getFolderKey } from "@/hooks/use-vault-keys"
+import type { FileEncryption } from "@shared/schema"
+
+const PART_CONCURRENCY = 3
+const MAX_ACTIVE_UPLOADS = 2
+const MAX_PART_RETRIES = 3
+const RETRY_BASE_DELAY = 1000
+const URL_REFRESH_MARGIN = 5 * 60 * 1000 // refresh part URLs this long before they expire
+
+export type UploadStatus = "pending" | "uploading" | "completed" | "error" | "paused"
+
+export interface UploadItem {
+  id: string
+  name: string
+  size: number
+  uploadedBytes: number
+  status: UploadStatus
+  error?: string
+  type: string
+}
+
+interface PartUrl {
+  url: string
+  headers?: Record<string, string> // binds the part to its checksum, for S3 to check
+  expiresAt: number
+}
+
+interface MultipartSession {
+  fileId: string
+  uploadId: string
+  partSize: number
+  partCount: number
+  urlTtl: number
+  partUrls: Map<number, PartUrl>
+}
+
+interface UploadTask {
+  item: UploadItem
+  file: File
+  folderId: string | null
+  targetFileId?: string // set when the upload replaces an existing file as a new version
+  folderKey?: CryptoKey // set when uploading into an unlocked encrypted folder
+  fileKey?: CryptoKey // per-file content key, generated when the session starts
+  session?: MultipartSession
+  completedParts: Map<number, string> // part number -> ETag
+  partChecksums: Map<number, string> // part number -> hex SHA-256, checked as each part is stored
+  inFlightBytes: Map<number, number> // part number -> bytes sent so far
+  requests: Set<XMLHttpRequest>
+  run: number // bumped on every start so stale runs notice they were superseded
+}
+
+class UploadAbortedError extends Error {
+  constructor() {
+    super("Upload aborted")
+  }
+}
+
+class UploadRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+  }
+}
+
+let count = 0
+
+function genId() {
+  count = (count + 1) % Number.MAX_SAFE_INTEGER
+  return `upload-${Date.now()}-${count}`
+}
+
+const tasks = new Map<string, UploadTask>()
+const listeners: Array<(uploads: UploadItem[]) => void> = []
+let snapshot: UploadItem[] = []
+
+function emit() {
+  snapshot = Array.from(tasks.values()).map((task) => ({ ...task.item }))
+  listeners.forEach((listener) => listener(snapshot))
+}
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function sendRequest(
+  task: UploadTask,
+  method: string,
+  url: string,
+  body: Blob,
+  headers: Record<string, string>,
+  onProgress: (loaded: number) => void
+): Promise<XMLHttpRequest> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    task.requests.add(xhr)
+
+    xhr.open(method, url)
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value))
+    xhr.withCredentials = url.startsWith("/")
+    xhr.upload.onprogress = (event) => onProgress(event.loaded)
+    xhr.onload = () => {
+      task.requests.delete(xhr)
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr)
+      } else {
+        reject(new UploadRequestError(xhr.status, `${xhr.status}: ${xhr.responseText || xhr.statusText}`))
+      }
+    }
+    xhr.onerror = () => {
+      task.requests.delete(xhr)
+      reject(new Error("Network error"))
+    }
+    xhr.onabort = () => {
+      task.requests.delete(xhr)
+      reject(new UploadAbortedError())
+    }
+    xhr.send(body)
+  })
+}
+
+function abortRequests(task: UploadTask) {
+  Array.from(task.requests).forEach((xhr) => xhr.abort())
+  task.requests.clear()
+  task.inFlightBytes.clear()
+}
+
+function updateProgress(task: UploadTask) {
+  if (!task.session) return
+
+  let uploaded = 0
+  task.completedParts.forEach((_etag, partNumber) => {
+    const start = (partNumber - 1) * task.session!.partSize
+    uploaded += Math.min(task.session!.partSize, task.item.size - start)
+  })
+  task.inFlightBytes.forEach((bytes) => {
+    uploaded += bytes
+  })
+
+  task.item.uploadedBytes = Math.min(uploaded, task.item.size)
+  emit()
+}
+
+function isActive(task: UploadTask, run: number) {
+  return tasks.get(task.item.id) === task && task.run === run && task.item.status === "uploading"
+}
+
+function isUrlFresh(partUrl: PartUrl | undefined) {
+  return !!partUrl && partUrl.expiresAt - URL_REFRESH_MARGIN > Date.now()
+}
+
+function storePartUrls(
+  session: MultipartSession,
+  urls: { partNumber: number; url: string; headers?: Record<string, string> }[]
+) {
+  const expiresAt = Date.now() + session.urlTtl
+  urls.forEach(({ partNumber, url, headers }) => session.partUrls.set(partNumber, { url, headers, expiresAt }))
+}
+
+// Returns a usable URL for the part. URLs are fetched one part at a time as each part
+// starts, which also tells the server the upload is still alive; a retry reuses the
+// URL while it is fresh.
+async function getPartUrl(task: UploadTask, partNumber: number): Promise<PartUrl> {
+  const session = task.session!
+
+  if (!isUrlFresh(session.partUrls.get(partNumber))) {
+    const res = await apiRequest("POST", "/api/upload/parts", {
+      fileId: session.fileId,
+      uploadId: session.uploadId,
+      parts: [{ partNumber, checksum: task.partChecksums.get(partNumber) }],
+    })
+    const { urls } = await res.json()
+    storePartUrls(session, urls)
+  }
+
+  return session.partUrls.get(partNumber)!
+}
+
+async function sha256Hex(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+async function uploadPart(task: UploadTask, partNumber: number, run: number) {
+  const { partSize } = task.session!
+  const start = (partNumber - 1) * partSize
+  const end = Math.min(start + partSize, task.item.size)
+  // Encryption is deterministic per segment, so retried parts produce the same bytes
+  const blob = task.fileKey
+    ? await encryptRange(task.file, task.fileKey, start, end)
+    : task.file.slice(start, end)
+  task.partChecksums.set(partNumber, await sha256Hex(blob))
+  // Pausing only aborts requests already sent, so a part still being prepared stops here
+  if (!isActive(task, run)) {
+    throw new UploadAbortedError()
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const { url, headers = {} } = await getPartUrl(task, partNumber)
+      if (!isActive(task, run)) {
+        throw new UploadAbortedError()
+      }
+      const xhr = await sendRequest(task, "PUT", url, blob, headers, (loaded) => {
+        task.inFlightBytes.set(partNumber, loaded)
+        updateProgress(task)
+      })
+
+      const etag = xhr.getResponseHeader("ETag")
+      if (!etag) {
+        throw new Error("Storage did not return an ETag for the uploaded part")
+      }
+
+      task.inFlightBytes.delete(partNumber)
+      task.completedParts.set(partNumber, etag.replace(/"/g, ""))
+      updateProgress(task)
+      return
+    } catch (error) {
+      task.inFlightBytes.delete(partNumber)
+      if (error instanceof UploadRequestError && error.status === 403) {
+        // Most likely an expired signature; force a fresh URL on the next attempt
+        task.session!.partUrls.delete(partNumber)
+      }
+      if (error instanceof UploadAbortedError || !isActive(task, run) || attempt >= MAX_PART_RETRIES) {
+        throw error
+      }
+      await delay(RETRY_BASE_DELAY * 2 ** attempt)
+      if (!isActive(task, run)) {
+        throw new UploadAbortedError()
+      }
+    }
+  }
+}
+
+async function runMultipartUpload(task: UploadTask, run: number) {
+  if (!task.session) {
+    // Encrypted uploads send a sealed name and only ever ciphertext
+    let filename = task.file.name
+    let encryption: FileEncryption | undefined
+    if (task.folderKey) {
+      const sealed = await createFileEncryption(task.folderKey)
+      task.fileKey = sealed.key
+      encryption = sealed.encryption
+      filename = await encryptMetadata(
+        { name: task.file.name, mime: task.file.type || "application/octet-stream", size: task.file.size },
+        sealed.key
+      )
+    }
+
+    const res = await apiRequest("POST", "/api/upload/init", {
+      filename,
+      size: task.item.size,
+      folderId: task.folderId || undefined,
+      fileId: task.targetFileId,
+      encryption,
+    })
+    const { uploadId, fileId, partSize, partCount, urlExpiresIn } = await res.json()
+    task.session = {
+      fileId,
+      uploadId,
+      partSize,
+      partCount,
+      urlTtl: urlExpiresIn * 1000,
+      partUrls: new Map(),
+    }
+  }
+
+  const remaining: number[] = []
+  for (let partNumber = 1; partNumber <= task.session.partCount; partNumber++) {
+    if (!task.completedParts.has(partNumber)) {
+      remaining.push(partNumber)
+    }
+  }
+
+  const worker = async () => {
+    while (remaining.length > 0 && isActive(task, run)) {
+      await uploadPart(task, remaining.shift()!, run)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(PART_CONCURRENCY, remaining.length) }, worker))
+
+  if (!isActive(task, run)) {
+    throw new UploadAbortedError()
+  }
+
+  const parts = Array.from(task.completedParts.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([PartNumber, ETag]) => ({ ETag, PartNumber, checksum: task.partChecksums.get(PartNumber) }))
+
+  await apiRequest("POST", "/api/upload/complete", {
+    fileId: task.session.fileId,
+    uploadId: task.session.uploadId,
+    parts,
+  })
+}
+
+async function runTask(task: UploadTask) {
+  const run = ++task.run
+  task.item.status = "uploading"
+  task.item.error = undefined
+  emit()
+
+  try {
+    // Both drivers speak the same multipart protocol: S3 via presigned URLs, local via part routes
+    await runMultipartUpload(task, run)
+
+    task.item.status = "completed"
+    task.item.uploadedBytes = task.item.size
+    queryClient.invalidateQueries({ queryKey: ["/api/files"] })
+    queryClient.invalidateQueries({ queryKey: ["/api/me/usage"] })
+  } catch (error) {
+    if (task.run !== run) return
+    abortRequests(task)
+    if (!(error instanceof UploadAbortedError) && task.item.status === "uploading") {
+      task.item.status = "error"
+      task.item.error = (error as Error).message
+    }
+  } finally {
+    emit()
+    pump()
+  }
+}
+
+// Starts queued uploads while there is room for more concurrent transfers
+function pump() {
+  const active = Array.from(tasks.values()).filter((task) => task.item.status === "uploading").length
+  const pending = Array.from(tasks.values()).filter((task) => task.item.status === "pending")
+
+  pending.slice(0, Math.max(0, MAX_ACTIVE_UPLOADS - active)).forEach((task) => {
+    void runTask(task)
+  })
+}
+
+function addUploads(files: File[], folderId: string | null, targetFileId?: string) {
+  const folderKey = getFolderKey(folderId)
+
+  files.forEach((file) => {
+    const id = genId()
+    tasks.set(id, {
+      item: {
+        id,
+        name: file.name,
+        size: folderKey ? encryptedSize(file.size) : file.size, // bytes actually transferred
+        uploadedBytes: 0,
+        status: "pending",
+        type: file.type,
+      },
+      file,
+      folderId,
+      targetFileId,
+      folderKey,
+      completedParts: new Map(),
+      partChecksums: new Map(),
+      inFlightBytes: new Map(),
+      requests: new Set(),
+      run: 0,
+    })
+  })
+  emit()
+  pump()
+}
+
+function pauseUpload(id: string) {
+  const task = tasks.get(id)
+  if (!task || (task.item.status !== "uploading" && task.item.status !== "pending")) return
+
+  task.item.status = "paused"
+  abortRequests(task)
+  updateProgress(task)
+  emit()
+  pump()
+}
+
+function resumeUpload(id: string) {
+  const task = tasks.get(id)
+  if (!task || (task.item.status !== "paused" && task.item.status !== "error")) return
+
+  task.item.status = "pending"
+  emit()
+  pump()
+}
+
+function cancelUpload(id: string) {
+  const task = tasks.get(id)
+  if (!task) return
+
+  tasks.delete(id)
+  abortRequests(task)
+  emit()
+  pump()
+
+  // Release the server-side session so no parts or placeholder record linger
+  if (task.session && task.item.status !== "completed") {
+    apiRequest("POST", "/api/upload/abort", {
+      fileId: task.session.fileId,
+      uploadId: task.session.uploadId,
+    }).catch(() => {
+      // The server sweeps abandoned sessions eventually
+    })
+  }
+}
+
+function clearFinishedUploads() {
+  Array.from(tasks.entries()).forEach(([id, task]) => {
+    if (task.item.status === "completed") {
+      tasks.delete(id)
+    }
+  })
+  emit()
+}
+
+function useUploads() {
+  const [uploads, setUploads] = React.useState<UploadItem[]>(snapshot)
+
+  React.useEffect(() => {
+    listeners.push(setUploads)
+    return () => {
+      const index = listeners.indexOf(setUploads)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [])
+
+  return {
+    uploads,
+    addUploads,
+    pauseUpload,
+    resumeUpload,
+    cancelUpload,
+    clearFinishedUploads,
+  }
+}
+
+export { useUploads, addUploads }
@@ -0,0 +1,44 @@
+import * as React from "react"
+
+// Unlocked encrypted-folder keys, held in memory only so a reload locks every folder again
+const keys = new Map<string, CryptoKey>()
+const listeners: Array<() => void> = []
+
+function emit() {
+  listeners.forEach((listener) => listener())
+}
+
+function getFolderKey(folderId: string | null): CryptoKey | undefined {
+  return folderId ? keys.get(folderId) : undefined
+}
+
+function setFolderKey(folderId: string, key: CryptoKey) {
+  keys.set(folderId, key)
+  emit()
+}
+
+function lockFolder(folderId: string) {
+  if (keys.delete(folderId)) {
+    emit()
+  }
+}
+
+function useFolderKey(folderId: string | null) {
+  const [key, setKey] = React.useState(() => getFolderKey(folderId))
+
+  React.useEffect(() => {
+    const listener = () => setKey(getFolderKey(folderId))
+    listener()
+    listeners.push(listener)
+    return () => {
+      const index = listeners.indexOf(listener)
+      if (index > -1) {
+        listeners.splice(index, 1)
+      }
+    }
+  }, [folderId])
+
+  return key
+}
+
+export { useFolderKey, getFolderKey, setFolderKey, lockFolder }
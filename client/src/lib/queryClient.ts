@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { NameConflict } from "@shared/schema";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -7,6 +8,19 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// The existing sibling when a request failed with a 409 name conflict
+export function getNameConflict(error: Error): NameConflict | null {
+  if (!error.message.startsWith("409: ")) {
+    return null;
+  }
+  try {
+    const body = JSON.parse(error.message.slice("409: ".length));
+    return body.code === "name_conflict" ? body.conflict : null;
+  } catch {
+    return null;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
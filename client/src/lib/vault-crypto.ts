@@ -0,0 +1,226 @@
+import type { FileEncryption, FolderEncryption } from "@shared/schema";
+
+// End-to-end encryption for encrypted folders. Everything here runs in the browser;
+// the server only ever stores ciphertext and keys wrapped by other keys.
+//
+// Key hierarchy: passphrase -(PBKDF2)-> folder KEK -(wraps)-> folder key -(wraps)-> file key.
+// File content is split into 64KB segments, each sealed with AES-256-GCM under the
+// file key. The nonce is the segment index and the AAD marks the final segment, so
+// segments can't be reordered or the file truncated, and any ciphertext range can be
+// produced independently (multipart uploads encrypt part by part).
+
+const SEGMENT_SIZE = 64 * 1024;
+const TAG_SIZE = 16;
+const SEALED_SEGMENT_SIZE = SEGMENT_SIZE + TAG_SIZE;
+const IV_SIZE = 12;
+const PBKDF2_ITERATIONS = 310000;
+// Folder keys wrap file keys and file keys encrypt content; a key from a share link can be either
+const KEY_USAGES: KeyUsage[] = ["encrypt", "decrypt", "wrapKey", "unwrapKey"];
+
+export interface EncryptedMetadata {
+  name: string; // full original filename, including the extension
+  mime: string;
+  size: number; // plaintext size in bytes
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const padded = value.replace(/-/g, "+").replace(/_/g, "/");
+  return fromBase64(padded + "=".repeat((4 - (padded.length % 4)) % 4));
+}
+
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+function generateKey(): Promise<CryptoKey> {
+  // Extractable so the key can travel in a share link fragment
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, KEY_USAGES);
+}
+
+async function deriveKek(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"]
+  );
+}
+
+async function wrapKey(key: CryptoKey, wrappingKey: CryptoKey): Promise<string> {
+  const iv = randomBytes(IV_SIZE);
+  const wrapped = new Uint8Array(await crypto.subtle.wrapKey("raw", key, wrappingKey, { name: "AES-GCM", iv }));
+  const out = new Uint8Array(IV_SIZE + wrapped.length);
+  out.set(iv);
+  out.set(wrapped, IV_SIZE);
+  return toBase64(out);
+}
+
+function unwrapKey(wrappedKey: string, wrappingKey: CryptoKey): Promise<CryptoKey> {
+  const bytes = fromBase64(wrappedKey);
+  return crypto.subtle.unwrapKey(
+    "raw",
+    bytes.subarray(IV_SIZE),
+    wrappingKey,
+    { name: "AES-GCM", iv: bytes.subarray(0, IV_SIZE) },
+    { name: "AES-GCM", length: 256 },
+    true,
+    KEY_USAGES
+  );
+}
+
+// Sets up a new encrypted folder, returning what the server stores and the unlocked key
+export async function createFolderEncryption(
+  passphrase: string
+): Promise<{ encryption: FolderEncryption; key: CryptoKey }> {
+  const salt = randomBytes(16);
+  const kek = await deriveKek(passphrase, salt, PBKDF2_ITERATIONS);
+  const key = await generateKey();
+
+  return {
+    encryption: {
+      version: 1,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      wrappedKey: await wrapKey(key, kek),
+    },
+    key,
+  };
+}
+
+export async function unlockFolderKey(encryption: FolderEncryption, passphrase: string): Promise<CryptoKey> {
+  const kek = await deriveKek(passphrase, fromBase64(encryption.salt), encryption.iterations);
+  try {
+    return await unwrapKey(encryption.wrappedKey, kek);
+  } catch {
+    throw new Error("Incorrect passphrase");
+  }
+}
+
+export async function createFileEncryption(
+  folderKey: CryptoKey
+): Promise<{ encryption: FileEncryption; key: CryptoKey }> {
+  const key = await generateKey();
+  return {
+    encryption: { version: 1, wrappedKey: await wrapKey(key, folderKey) },
+    key,
+  };
+}
+
+export function unlockFileKey(encryption: FileEncryption, folderKey: CryptoKey): Promise<CryptoKey> {
+  return unwrapKey(encryption.wrappedKey, folderKey);
+}
+
+// Keys in share links go after the '#', which browsers never send to the server
+export async function exportKeyForLink(key: CryptoKey): Promise<string> {
+  return toBase64Url(new Uint8Array(await crypto.subtle.exportKey("raw", key)));
+}
+
+export function importKeyFromLink(value: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", fromBase64Url(value), { name: "AES-GCM" }, true, KEY_USAGES);
+}
+
+export function readLinkKey(hash: string): string | null {
+  return new URLSearchParams(hash.replace(/^#/, "")).get("key");
+}
+
+// Filenames are sealed together with the type and size, which the server can't see either.
+// The result is URL-safe so it can stand in for the filename during upload.
+export async function encryptMetadata(metadata: EncryptedMetadata, key: CryptoKey): Promise<string> {
+  const iv = randomBytes(IV_SIZE);
+  const sealed = new Uint8Array(
+    await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(JSON.stringify(metadata)))
+  );
+  const out = new Uint8Array(IV_SIZE + sealed.length);
+  out.set(iv);
+  out.set(sealed, IV_SIZE);
+  return toBase64Url(out);
+}
+
+export async function decryptMetadata(value: string, key: CryptoKey): Promise<EncryptedMetadata> {
+  const bytes = fromBase64Url(value);
+  const plain = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: bytes.subarray(0, IV_SIZE) },
+    key,
+    bytes.subarray(IV_SIZE)
+  );
+  return JSON.parse(new TextDecoder().decode(plain));
+}
+
+function segmentCount(plainSize: number): number {
+  return Math.max(1, Math.ceil(plainSize / SEGMENT_SIZE));
+}
+
+function segmentParams(index: number, final: boolean): AesGcmParams {
+  const iv = new Uint8Array(IV_SIZE);
+  new DataView(iv.buffer).setBigUint64(IV_SIZE - 8, BigInt(index));
+  return { name: "AES-GCM", iv, additionalData: new Uint8Array([final ? 1 : 0]) };
+}
+
+export function encryptedSize(plainSize: number): number {
+  return plainSize + segmentCount(plainSize) * TAG_SIZE;
+}
+
+// Encrypts just the segments covering ciphertext bytes [start, end) of the file
+export async function encryptRange(file: Blob, key: CryptoKey, start: number, end: number): Promise<Blob> {
+  const count = segmentCount(file.size);
+  const first = Math.floor(start / SEALED_SEGMENT_SIZE);
+  const last = Math.min(count - 1, Math.floor((end - 1) / SEALED_SEGMENT_SIZE));
+
+  const sealed: ArrayBuffer[] = [];
+  for (let index = first; index <= last; index++) {
+    const plain = await file.slice(index * SEGMENT_SIZE, (index + 1) * SEGMENT_SIZE).arrayBuffer();
+    sealed.push(await crypto.subtle.encrypt(segmentParams(index, index === count - 1), key, plain));
+  }
+
+  const offset = first * SEALED_SEGMENT_SIZE;
+  return new Blob(sealed).slice(start - offset, end - offset);
+}
+
+export async function decryptContent(ciphertext: ArrayBuffer, key: CryptoKey, mime: string): Promise<Blob> {
+  const count = Math.max(1, Math.ceil(ciphertext.byteLength / SEALED_SEGMENT_SIZE));
+  const plain: ArrayBuffer[] = [];
+
+  try {
+    for (let index = 0; index < count; index++) {
+      const segment = ciphertext.slice(index * SEALED_SEGMENT_SIZE, (index + 1) * SEALED_SEGMENT_SIZE);
+      plain.push(await crypto.subtle.decrypt(segmentParams(index, index === count - 1), key, segment));
+    }
+  } catch {
+    throw new Error("File could not be decrypted");
+  }
+
+  return new Blob(plain, { type: mime });
+}
+
+// Splits a decrypted filename the way the server stores plaintext ones
+export function splitFilename(filename: string): { name: string; ext: string } {
+  const dot = filename.lastIndexOf(".");
+  if (dot <= 0) {
+    return { name: filename, ext: "" };
+  }
+  return { name: filename.slice(0, dot), ext: filename.slice(dot + 1) };
+}
@@ -1,21 +1,30 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useRoute } from "wouter";
 import { Sidebar } from "@/components/Sidebar";
 import { TopBar } from "@/components/TopBar";
-import { FileGrid } from "@/components/FileGrid";
+import { FileExplorer } from "@/components/FileExplorer";
 import { MobileBottomNav } from "@/components/MobileBottomNav";
 import { UploadProgress } from "@/components/UploadProgress";
+import { SharedLinks } from "@/components/SharedLinks";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useFolderRoute } from "@/hooks/use-folder-route";
 
 export default function Dashboard() {
-  const [currentFolder, setCurrentFolder] = useState<string | null>(null);
+  const { currentFolder, isResolving, notFound, openFolder } = useFolderRoute();
   const [searchQuery, setSearchQuery] = useState("");
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
   const [selectedItems, setSelectedItems] = useState<string[]>([]);
   const isMobile = useIsMobile();
+  const [isSharedView] = useRoute("/shared");
+
+  // The current folder lives in the URL, so opening one is a navigation
+  const handleFolderChange = (folderId: string | null) => {
+    void openFolder(folderId);
+  };
 
   const { data: folders = [] } = useQuery({
-    queryKey: ["/api/folders"],
+    queryKey: ["/api/folders", currentFolder],
     queryFn: async () => {
       const res = await fetch(`/api/folders?parent=${currentFolder || ""}`, {
         credentials: "include",
@@ -23,6 +32,7 @@ export default function Dashboard() {
       if (!res.ok) throw new Error("Failed to fetch folders");
       return res.json();
     },
+    enabled: !isResolving,
   });
 
   const { data: files = [] } = useQuery({
@@ -34,6 +44,7 @@ export default function Dashboard() {
       if (!res.ok) throw new Error("Failed to fetch files");
       return res.json();
     },
+    enabled: !isResolving,
   });
 
   return (
@@ -42,7 +53,7 @@ export default function Dashboard() {
       {!isMobile && (
         <Sidebar 
           currentFolder={currentFolder}
-          onFolderChange={setCurrentFolder}
+          onFolderChange={handleFolderChange}
         />
       )}
 
@@ -50,7 +61,7 @@ export default function Dashboard() {
       <div className="flex-1 flex flex-col overflow-hidden">
         <TopBar
           currentFolder={currentFolder}
-          onFolderChange={setCurrentFolder}
+          onFolderChange={handleFolderChange}
           searchQuery={searchQuery}
           onSearchChange={setSearchQuery}
           viewMode={viewMode}
@@ -58,22 +69,31 @@ export default function Dashboard() {
           selectedItems={selectedItems}
         />
 
-        <FileGrid
-          folders={folders}
-          files={files}
-          viewMode={viewMode}
-          selectedItems={selectedItems}
-          onSelectionChange={setSelectedItems}
-          onFolderOpen={setCurrentFolder}
-          searchQuery={searchQuery}
-        />
+        {isSharedView ? (
+          <SharedLinks />
+        ) : notFound ? (
+          <div className="flex-1 flex items-center justify-center text-muted-foreground" data-testid="folder-not-found">
+            This folder doesn't exist or has been moved.
+          </div>
+        ) : (
+          <FileExplorer
+            folders={folders}
+            files={files}
+            viewMode={viewMode}
+            selectedItems={selectedItems}
+            onSelectionChange={setSelectedItems}
+            onFolderOpen={handleFolderChange}
+            searchQuery={searchQuery}
+            currentFolder={currentFolder}
+          />
+        )}
       </div>
 
       {/* Mobile Bottom Navigation */}
       {isMobile && (
         <MobileBottomNav 
           currentFolder={currentFolder}
-          onFolderChange={setCurrentFolder}
+          onFolderChange={handleFolderChange}
         />
       )}
 
@@ -0,0 +1,429 @@
+import { useEffect, useState } from "react";
+import { useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { FilePreview, type PreviewFile } from "@/components/FilePreview";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  decryptContent,
+  decryptMetadata,
+  importKeyFromLink,
+  readLinkKey,
+  splitFilename,
+  unlockFileKey,
+} from "@/lib/vault-crypto";
+import { AlertCircle, ArrowLeft, Download, Eye, FileText, Folder, KeyRound, Loader2, Lock, Vault } from "lucide-react";
+import type { FileEncryption } from "@shared/schema";
+
+interface PublicFolder {
+  id: string;
+  name: string;
+  encrypted: boolean;
+  updatedAt: string;
+}
+
+interface PublicFile extends PreviewFile {
+  updatedAt: string;
+  encryption: FileEncryption | null;
+  fileKey?: CryptoKey; // set once an encrypted file has been decrypted with the link key
+}
+
+type ShareInfo =
+  | { locked: true }
+  | {
+      locked: false;
+      id: string;
+      resourceType: "file" | "folder";
+      allowDownload: boolean;
+      expiresAt: string | null;
+      file?: PublicFile;
+      folder?: PublicFolder;
+    };
+
+interface FolderListing {
+  folder: PublicFolder;
+  isRoot: boolean;
+  parentId: string | null;
+  folders: PublicFolder[];
+  files: PublicFile[];
+}
+
+export default function SharePage() {
+  const { id } = useParams<{ id: string }>();
+  const [password, setPassword] = useState("");
+  const [currentFolder, setCurrentFolder] = useState<string | null>(null);
+  const [previewFile, setPreviewFile] = useState<PublicFile | null>(null);
+  const [linkKey, setLinkKey] = useState<CryptoKey | null>(null);
+  const [revealedFiles, setRevealedFiles] = useState<Record<string, PublicFile>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: share, isLoading, error } = useQuery<ShareInfo, Error>({
+    queryKey: ["/api/public/shares", id],
+    queryFn: async () => {
+      const res = await fetch(`/api/public/shares/${id}`, { credentials: "include" });
+      if (res.status === 401) {
+        return { locked: true };
+      }
+      if (res.status === 404) throw new Error("This link does not exist or has been revoked.");
+      if (res.status === 410) throw new Error("This link has expired.");
+      if (!res.ok) throw new Error("Failed to load shared item");
+      return { locked: false, ...(await res.json()) };
+    },
+  });
+
+  const isFolderShare = !!share && !share.locked && share.resourceType === "folder";
+
+  const { data: listing, isLoading: isListingLoading } = useQuery<FolderListing>({
+    queryKey: ["/api/public/shares", id, "folders", currentFolder],
+    queryFn: async () => {
+      const res = await fetch(`/api/public/shares/${id}/folders?folder=${currentFolder || ""}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to fetch folder contents");
+      return res.json();
+    },
+    enabled: isFolderShare,
+  });
+
+  // Links to encrypted items carry the file key (file shares) or folder key (folder
+  // shares) in the URL fragment, which the browser never sends to the server
+  useEffect(() => {
+    const value = readLinkKey(window.location.hash);
+    if (value) {
+      importKeyFromLink(value).then(setLinkKey).catch(() => setLinkKey(null));
+    }
+  }, []);
+
+  useEffect(() => {
+    const sharedFile = share && !share.locked ? share.file : undefined;
+    const candidates = [
+      ...(sharedFile ? [{ file: sharedFile, wrapped: false }] : []),
+      ...(listing?.folder.encrypted ? listing.files.map((file) => ({ file, wrapped: true })) : []),
+    ].filter(({ file }) => file.encryption);
+    if (!linkKey || candidates.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(
+      candidates.map(async ({ file, wrapped }) => {
+        try {
+          const fileKey = wrapped ? await unlockFileKey(file.encryption!, linkKey) : linkKey;
+          const metadata = await decryptMetadata(file.name, fileKey);
+          return { ...file, ...splitFilename(metadata.name), mime: metadata.mime, size: metadata.size, fileKey };
+        } catch {
+          return null; // wrong or missing key; the file stays sealed
+        }
+      })
+    ).then((results) => {
+      if (cancelled) return;
+      const revealed: Record<string, PublicFile> = {};
+      results.forEach((file) => {
+        if (file) revealed[file.id] = file;
+      });
+      setRevealedFiles(revealed);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [share, listing, linkKey]);
+
+  const reveal = (file: PublicFile) => revealedFiles[file.id] ?? file;
+  const isSealed = (file: PublicFile) => !!file.encryption && !revealedFiles[file.id];
+
+  const unlockMutation = useMutation({
+    mutationFn: async (password: string) => {
+      await apiRequest("POST", `/api/public/shares/${id}/unlock`, { password });
+    },
+    onSuccess: () => {
+      setPassword("");
+      queryClient.invalidateQueries({ queryKey: ["/api/public/shares", id] });
+    },
+    onError: () => {
+      toast({
+        title: "Incorrect password",
+        description: "The password you entered is not valid for this link.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getContentUrl = (fileId: string) => `/api/public/shares/${id}/files/${fileId}/content`;
+
+  const handleDownload = async (fileId: string) => {
+    const file = revealedFiles[fileId];
+    if (!file?.fileKey) {
+      window.location.href = `${getContentUrl(fileId)}?download=1`;
+      return;
+    }
+
+    // Encrypted content is decrypted here and saved from memory
+    try {
+      const res = await fetch(`${getContentUrl(fileId)}?download=1`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to download file");
+      const blob = await decryptContent(await res.arrayBuffer(), file.fileKey, file.mime);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = file.ext ? `${file.name}.${file.ext}` : file.name;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatName = (file: PublicFile) =>
+    isSealed(file) ? "Encrypted file" : `${file.name}${file.ext ? `.${file.ext}` : ""}`;
+
+  const formatSize = (bytes: number) => {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let size = bytes;
+    let unitIndex = 0;
+
+    while (size >= 1024 && unitIndex < units.length - 1) {
+      size /= 1024;
+      unitIndex++;
+    }
+
+    return `${size.toFixed(1)} ${units[unitIndex]}`;
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    if (error || !share) {
+      return (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="h-6 w-6 text-destructive" />
+              <p className="font-medium" data-testid="text-share-error">
+                {error?.message || "Failed to load shared item"}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    if (share.locked) {
+      return (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Lock className="h-5 w-5" />
+              <span>Password required</span>
+            </CardTitle>
+            <CardDescription>
+              This shared item is protected. Enter the password to continue.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                unlockMutation.mutate(password);
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="share-password">Password</Label>
+                <Input
+                  id="share-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  data-testid="input-share-password"
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={!password || unlockMutation.isPending}
+                data-testid="button-unlock-share"
+              >
+                {unlockMutation.isPending ? "Checking..." : "Unlock"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    if (share.file) {
+      const file = reveal(share.file);
+      if (isSealed(file)) {
+        return (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <KeyRound className="h-5 w-5" />
+                <span data-testid="text-shared-file-name">Encrypted file</span>
+              </CardTitle>
+              <CardDescription data-testid="text-share-missing-key">
+                This file is end-to-end encrypted. Open the complete link, including the part after "#", to view it.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        );
+      }
+
+      return (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <FileText className="h-5 w-5 text-blue-500" />
+              <span className="truncate" data-testid="text-shared-file-name">
+                {formatName(file)}
+              </span>
+            </CardTitle>
+            <CardDescription>{formatSize(file.size)}</CardDescription>
+          </CardHeader>
+          <CardContent className="flex space-x-2">
+            <Button onClick={() => setPreviewFile(file)} data-testid="button-preview-shared-file">
+              <Eye className="h-4 w-4 mr-2" />
+              Preview
+            </Button>
+            {share.allowDownload && (
+              <Button
+                variant="outline"
+                onClick={() => handleDownload(file.id)}
+                data-testid="button-download-shared-file"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            {listing && !listing.isRoot && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => setCurrentFolder(listing.parentId)}
+                data-testid="button-shared-folder-up"
+              >
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            )}
+            <Folder className="h-5 w-5 text-yellow-500" />
+            <span className="truncate" data-testid="text-shared-folder-name">
+              {listing?.folder.name || share.folder?.name}
+            </span>
+          </CardTitle>
+          {share.folder?.encrypted && !linkKey && (
+            <CardDescription data-testid="text-share-missing-key">
+              This folder is end-to-end encrypted. Open the complete link, including the part after "#", to view its files.
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isListingLoading || !listing ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : listing.folders.length === 0 && listing.files.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">This folder is empty</p>
+          ) : (
+            <div className="divide-y divide-border">
+              {listing.folders.map((folder) => (
+                <div
+                  key={folder.id}
+                  className="flex items-center p-3 hover:bg-accent cursor-pointer rounded"
+                  onClick={() => setCurrentFolder(folder.id)}
+                  data-testid={`shared-folder-${folder.id}`}
+                >
+                  <Folder className="h-4 w-4 text-yellow-500 mr-3" />
+                  <span className="font-medium truncate">{folder.name}</span>
+                </div>
+              ))}
+              {listing.files.map(reveal).map((file) => (
+                <div
+                  key={file.id}
+                  className="flex items-center justify-between p-3 hover:bg-accent cursor-pointer rounded"
+                  onClick={() => !isSealed(file) && setPreviewFile(file)}
+                  data-testid={`shared-file-${file.id}`}
+                >
+                  <div className="flex items-center min-w-0">
+                    {isSealed(file) ? (
+                      <KeyRound className="h-4 w-4 text-muted-foreground mr-3 flex-shrink-0" />
+                    ) : (
+                      <FileText className="h-4 w-4 text-blue-500 mr-3 flex-shrink-0" />
+                    )}
+                    <span className="font-medium truncate">{formatName(file)}</span>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm text-muted-foreground">{formatSize(file.size)}</span>
+                    {share.allowDownload && !isSealed(file) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDownload(file.id);
+                        }}
+                        data-testid={`button-download-${file.id}`}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const canDownload = !!share && !share.locked && share.allowDownload;
+
+  return (
+    <div className="min-h-screen bg-background flex justify-center p-4 lg:p-8">
+      <div className="w-full max-w-2xl space-y-6">
+        <div className="flex items-center space-x-2">
+          <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
+            <Vault className="h-4 w-4 text-primary-foreground" />
+          </div>
+          <h1 className="text-lg font-semibold">Vault</h1>
+        </div>
+
+        {renderBody()}
+      </div>
+
+      <FilePreview
+        file={previewFile}
+        isOpen={!!previewFile}
+        onClose={() => setPreviewFile(null)}
+        onDownload={canDownload ? handleDownload : undefined}
+        contentUrl={previewFile ? getContentUrl(previewFile.id) : undefined}
+        decryptionKey={previewFile?.fileKey}
+      />
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startUploadSweeper } from "./jobs/uploadSweeper";
+import { startScrubber } from "./jobs/scrubber";
+import { startTiering } from "./jobs/tiering";
+import { startJobWorker } from "./jobs/worker";
+import { startTrashPurge } from "./jobs/trashPurge";
 
 const app = express();
 app.use(express.json());
@@ -67,5 +72,10 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startUploadSweeper();
+    void startScrubber();
+    startTiering();
+    startJobWorker();
+    startTrashPurge();
   });
 })();
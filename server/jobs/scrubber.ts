@@ -0,0 +1,31 @@
+import { scrubService } from "../services/scrubService";
+import { storage } from "../storage";
+import { log } from "../vite";
+
+const SCRUB_INTERVAL_HOURS = parseInt(process.env.SCRUB_INTERVAL_HOURS || "24", 10);
+const SCRUB_REPAIR = process.env.SCRUB_REPAIR === "true";
+const SCRUB_VERIFY_CHECKSUMS = process.env.SCRUB_VERIFY_CHECKSUMS === "true";
+
+async function scrub() {
+  if (scrubService.isRunning()) return;
+  try {
+    const run = await scrubService.start({ repair: SCRUB_REPAIR, verifyChecksums: SCRUB_VERIFY_CHECKSUMS });
+    log(`started storage scrub ${run.id}`, "scrub");
+  } catch (error) {
+    console.error("Storage scrub failed to start:", error);
+  }
+}
+
+// Periodically checks storage against the database; set SCRUB_INTERVAL_HOURS=0 to disable
+export async function startScrubber() {
+  try {
+    // A restart mid-scrub leaves its run marked as running
+    await storage.failRunningScrubRuns("Interrupted by server restart");
+  } catch (error) {
+    console.error("Failed to close interrupted scrub runs:", error);
+  }
+
+  if (SCRUB_INTERVAL_HOURS <= 0) return;
+  const timer = setInterval(scrub, SCRUB_INTERVAL_HOURS * 60 * 60 * 1000);
+  timer.unref();
+}
@@ -0,0 +1,31 @@
+import { tieringService } from "../services/tieringService";
+import { storageService } from "../services/backendService";
+import { log } from "../vite";
+
+const TIERING_INTERVAL_HOURS = parseInt(process.env.TIERING_INTERVAL_HOURS || "24", 10);
+
+let running = false;
+
+async function tier() {
+  // A slow run must not overlap the next one
+  if (running) return;
+  running = true;
+  try {
+    const moved = await tieringService.moveColdFiles();
+    if (moved > 0) {
+      log(`moved ${moved} cold object(s) to ${storageService.coldBackend}`, "tiering");
+    }
+  } catch (error) {
+    console.error("Storage tiering failed:", error);
+  } finally {
+    running = false;
+  }
+}
+
+// Periodically moves files that haven't been downloaded in a while to STORAGE_COLD_BACKEND
+export function startTiering() {
+  if (!storageService.coldBackend) return;
+  const timer = setInterval(tier, TIERING_INTERVAL_HOURS * 60 * 60 * 1000);
+  timer.unref();
+  void tier();
+}
@@ -0,0 +1,30 @@
+import { trashService } from "../services/trashService";
+import { log } from "../vite";
+
+const TRASH_PURGE_INTERVAL_HOURS = parseInt(process.env.TRASH_PURGE_INTERVAL_HOURS || "6", 10);
+
+let running = false;
+
+async function purge() {
+  // A slow run must not overlap the next one
+  if (running) return;
+  running = true;
+  try {
+    const purged = await trashService.purgeExpired();
+    if (purged > 0) {
+      log(`purged ${purged} expired trash item(s)`, "trash");
+    }
+  } catch (error) {
+    console.error("Trash purge failed:", error);
+  } finally {
+    running = false;
+  }
+}
+
+// Periodically deletes trashed items past their retention; set TRASH_PURGE_INTERVAL_HOURS=0 to disable
+export function startTrashPurge() {
+  if (TRASH_PURGE_INTERVAL_HOURS <= 0) return;
+  const timer = setInterval(purge, TRASH_PURGE_INTERVAL_HOURS * 60 * 60 * 1000);
+  timer.unref();
+  void purge();
+}
@@ -0,0 +1,23 @@
+import { fileService } from "../services/fileService";
+import { log } from "../vite";
+
+const SESSION_TTL_HOURS = parseInt(process.env.UPLOAD_SESSION_TTL_HOURS || "24", 10);
+const SWEEP_INTERVAL_MINUTES = parseInt(process.env.UPLOAD_SWEEP_INTERVAL_MINUTES || "60", 10);
+
+async function sweep() {
+  try {
+    const aborted = await fileService.sweepStaleUploads(SESSION_TTL_HOURS * 60 * 60 * 1000);
+    if (aborted > 0) {
+      log(`aborted ${aborted} stale upload session(s)`, "uploads");
+    }
+  } catch (error) {
+    console.error("Upload sweep failed:", error);
+  }
+}
+
+// Periodically aborts multipart uploads that were started but never completed
+export function startUploadSweeper() {
+  const timer = setInterval(sweep, SWEEP_INTERVAL_MINUTES * 60 * 1000);
+  timer.unref();
+  void sweep();
+}
@@ -0,0 +1,16 @@
+import { jobQueue } from "../services/jobQueue";
+import { fileService, FILE_JOBS } from "../services/fileService";
+import { renditionService } from "../services/renditionService";
+import { searchService } from "../services/searchService";
+import { z } from "zod";
+
+const storedObjectPayload = z.object({ storageKey: z.string().min(1) });
+const indexPayload = storedObjectPayload.extend({ mime: z.string(), ext: z.string() });
+
+// Registers the job handlers and starts working the queue in this process
+export function startJobWorker() {
+  jobQueue.register(FILE_JOBS.checksum, storedObjectPayload, ({ storageKey }) => fileService.backfillChecksum(storageKey));
+  jobQueue.register(FILE_JOBS.renditions, storedObjectPayload, ({ storageKey }) => renditionService.generate(storageKey));
+  jobQueue.register(FILE_JOBS.index, indexPayload, ({ storageKey, mime, ext }) => searchService.indexContent(storageKey, { mime, ext }));
+  jobQueue.start();
+}
@@ -1,14 +1,30 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
-import { storage } from "./storage";
+import { storage, NameConflictError } from "./storage";
 import { fileService } from "./services/fileService";
-import { storageService } from "./services/s3Service";
+import type { ByteRange } from "./services/s3Service";
+import { storageService } from "./services/backendService";
+import { shareService, type ResolvedShare } from "./services/shareService";
+import { versionService } from "./services/versionService";
+import { blobService } from "./services/blobService";
+import { storageMigrationService } from "./services/migrationService";
+import { scrubService } from "./services/scrubService";
+import { placementService } from "./services/placementService";
+import { renditionService, RENDITION_KINDS } from "./services/renditionService";
+import { jobQueue } from "./services/jobQueue";
+import { quotaService } from "./services/quotaService";
+import { searchService, MAX_SEARCH_LIMIT } from "./services/searchService";
+import { trashService } from "./services/trashService";
+import { transferService, CONFLICT_POLICIES } from "./services/transferService";
+import { fileEncryptionSchema, folderEncryptionSchema, insertPlacementRuleSchema, quotaSettingsSchema, trashSettingsSchema, type File, type Folder } from "@shared/schema";
 import multer from "multer";
 import { z } from "zod";
 import rateLimit from "express-rate-limit";
 import { randomUUID } from "crypto";
 import archiver from "archiver";
+import { once } from "events";
+import { pipeline } from "stream/promises";
 
 // Rate limiters
 const authLimiter = rateLimit({
@@ -22,6 +38,18 @@ const uploadLimiter = rateLimit({
   max: 10, // 10 uploads per minute
 });
 
+const shareUnlockLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // 10 password attempts per window
+  message: "Too many password attempts, please try again later",
+});
+
+declare module "express-session" {
+  interface SessionData {
+    unlockedShares?: string[]; // see ShareService.unlockToken
+  }
+}
+
 // Multer setup for local uploads
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -38,6 +66,184 @@ function requireAuth(req: any, res: any, next: any) {
   next();
 }
 
+function requireAdmin(req: any, res: any, next: any) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  if (req.user.role !== "admin") {
+    return res.status(403).json({ message: "Admin access required" });
+  }
+  next();
+}
+
+function buildShareUrl(shareId: string): string {
+  return `${process.env.SHARE_BASE_URL || "http://localhost:5000"}/s/${shareId}`;
+}
+
+function contentDisposition(file: File, disposition: "attachment" | "inline") {
+  return `${disposition}; filename="${file.name}.${file.ext}"`;
+}
+
+// If-Range only honours a strong ETag or the exact Last-Modified date; anything
+// else means the client's cached bytes are stale and it gets the whole file
+function ifRangeMatches(req: Request, etag: string, lastModified: string) {
+  const ifRange = req.get("If-Range");
+  if (!ifRange) {
+    return true;
+  }
+  if (ifRange.startsWith('"') || ifRange.startsWith("W/")) {
+    return !etag.startsWith("W/") && ifRange === etag;
+  }
+  return Date.parse(ifRange) === Date.parse(lastModified);
+}
+
+// Pipes a stored file to the response without buffering it in memory. Honours
+// If-None-Match / If-Modified-Since and single byte ranges so media can seek.
+// Resolves true when the body was sent from the first byte, i.e. a real download.
+async function streamFile(
+  req: Request,
+  res: Response,
+  file: File,
+  disposition: "attachment" | "inline"
+): Promise<boolean> {
+  const etag = file.checksum ? `"${file.checksum}"` : `W/"${file.id}-${file.updatedAt.getTime()}"`;
+  const lastModified = file.updatedAt.toUTCString();
+
+  res.setHeader("Accept-Ranges", "bytes");
+  res.setHeader("ETag", etag);
+  res.setHeader("Last-Modified", lastModified);
+  res.setHeader("Cache-Control", "private, no-cache");
+
+  if (req.fresh) {
+    res.status(304).end();
+    return false;
+  }
+
+  let range: ByteRange | undefined;
+  if (req.headers.range && file.size > 0 && ifRangeMatches(req, etag, lastModified)) {
+    const ranges = req.range(file.size, { combine: true });
+    if (ranges === -1) {
+      res.setHeader("Content-Range", `bytes */${file.size}`);
+      res.status(416).end();
+      return false;
+    }
+    // Malformed headers are ignored and multiple ranges fall back to the full body
+    if (Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1) {
+      range = { start: ranges[0].start, end: ranges[0].end };
+    }
+  }
+
+  if (req.method === "HEAD") {
+    res.setHeader("Content-Type", file.mime);
+    res.setHeader("Content-Disposition", contentDisposition(file, disposition));
+    res.setHeader("Content-Length", file.size);
+    res.end();
+    return false;
+  }
+
+  const stream = await storageService.getFileStream(file.storageKey, range);
+  res.setHeader("Content-Type", file.mime);
+  res.setHeader("Content-Disposition", contentDisposition(file, disposition));
+  if (range) {
+    res.status(206);
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${file.size}`);
+    res.setHeader("Content-Length", range.end - range.start + 1);
+  } else {
+    res.setHeader("Content-Length", file.size);
+  }
+
+  await pipeline(stream, res);
+  return !range || range.start === 0;
+}
+
+const TRANSFER_REJECTIONS = new Set([
+  "Cannot move a folder into itself",
+  "Cannot copy a folder into itself",
+  "Encrypted files cannot leave their folder",
+  "Encrypted folder requires client-side encryption",
+  "Encrypted folders cannot contain subfolders",
+  "Encrypted folders cannot be merged",
+]);
+
+// Name clashes get a 409 naming the existing item, for the client to offer to rename,
+// replace or keep both
+function sendNameConflict(res: Response, error: unknown): boolean {
+  if (!(error instanceof NameConflictError)) {
+    return false;
+  }
+  res.status(409).json({
+    message: "An item with that name already exists",
+    code: "name_conflict",
+    conflict: error.conflict,
+  });
+  return true;
+}
+
+// Responds to a failed move or copy; returns false for errors it doesn't know
+function sendTransferError(res: Response, error: unknown): boolean {
+  if (sendNameConflict(res, error)) {
+    return true;
+  }
+  const message = (error as Error).message;
+  if (message === "File not found" || message === "Folder not found") {
+    res.status(404).json({ message });
+  } else if (message === "Name conflict") {
+    res.status(409).json({ message: "An item with that name already exists" });
+  } else if (message === "Storage quota exceeded") {
+    res.status(413).json({ message });
+  } else if (TRANSFER_REJECTIONS.has(message)) {
+    res.status(400).json({ message });
+  } else {
+    return false;
+  }
+  return true;
+}
+
+// Strip owner and storage details before handing records to anonymous viewers
+function toPublicFile(file: File) {
+  return {
+    id: file.id,
+    name: file.name,
+    ext: file.ext,
+    mime: file.mime,
+    size: file.size,
+    encryption: file.encryption, // wrapped key only; viewers need the key from the link fragment
+    updatedAt: file.updatedAt,
+  };
+}
+
+function toPublicFolder(folder: Folder) {
+  return {
+    id: folder.id,
+    name: folder.name,
+    encrypted: !!folder.encryption,
+    updatedAt: folder.updatedAt,
+  };
+}
+
+// Resolves a public share link, responding with the appropriate error when it
+// is missing, expired or still locked behind a password
+async function loadPublicShare(req: Request, res: Response): Promise<ResolvedShare | null> {
+  try {
+    const share = await shareService.resolveShare(req.params.id);
+    if (share.shareLink.passwordHash && !req.session.unlockedShares?.includes(shareService.unlockToken(share.shareLink))) {
+      res.status(401).json({ message: "Password required", requiresPassword: true });
+      return null;
+    }
+    return share;
+  } catch (error) {
+    if ((error as Error).message === "Share link not found") {
+      res.status(404).json({ message: "Share link not found" });
+      return null;
+    }
+    if ((error as Error).message === "Share link expired") {
+      res.status(410).json({ message: "Share link expired" });
+      return null;
+    }
+    throw error;
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Apply auth rate limiting to auth routes
   app.use("/api/login", authLimiter);
@@ -47,6 +253,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
   setupAuth(app);
 
   // Folder routes
+  // Looks a folder up by its path of names, e.g. ?path=/Projects/2024/Q1. Each name is
+  // percent-encoded within the path, so names containing "/" survive the split.
+  app.get("/api/folders/resolve", requireAuth, async (req, res) => {
+    try {
+      const { path } = z.object({ path: z.string().min(1) }).parse(req.query);
+      let segments: string[];
+      try {
+        segments = path.split("/").filter((segment) => segment.length > 0).map(decodeURIComponent);
+      } catch {
+        return res.status(400).json({ message: "Invalid path" });
+      }
+      if (segments.length === 0) {
+        return res.status(400).json({ message: "Path must name a folder" });
+      }
+
+      const folder = await storage.getFolderByPath(req.user!.id, segments);
+      if (!folder) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+      res.json(folder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // The folder's ancestors from the root down, ending with the folder, for breadcrumbs
+  app.get("/api/folders/:id/path", requireAuth, async (req, res) => {
+    try {
+      const folder = await storage.getFolderById(req.params.id);
+      if (!folder || folder.ownerId !== req.user!.id) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+      res.json(await storage.getFolderAncestors(folder.id, req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   app.get("/api/folders/:id", requireAuth, async (req, res) => {
     try {
       const folder = await storage.getFolderById(req.params.id);
@@ -77,13 +324,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const schema = z.object({
         name: z.string().min(1).max(255),
         parentId: z.string().optional(),
+        encryption: folderEncryptionSchema.optional(), // makes this an end-to-end encrypted folder
+        onConflict: z.enum(CONFLICT_POLICIES).default("fail"),
       });
-      
-      const { name, parentId } = schema.parse(req.body);
-      
+
+      const { name, parentId, encryption, onConflict } = schema.parse(req.body);
+
+      if (parentId) {
+        const parent = await storage.getFolderById(parentId);
+        if (!parent || parent.ownerId !== req.user!.id || parent.deletedAt) {
+          return res.status(404).json({ message: "Folder not found" });
+        }
+        if (parent.encryption) {
+          return res.status(400).json({ message: "Encrypted folders cannot contain subfolders" });
+        }
+      }
+
+      const existing = onConflict === "fail" ? undefined : await storage.findFolderByName(req.user!.id, parentId || null, name);
+      // Replacing with a new, empty folder is merging into the existing one, which
+      // encrypted folders can't do
+      if (existing && onConflict === "overwrite" && !existing.encryption && !encryption) {
+        return res.json(existing);
+      }
+
       const folder = await storage.createFolder({
-        name,
+        name: existing && onConflict === "rename" ? await transferService.uniqueFolderName(req.user!.id, parentId || null, name) : name,
         parentId: parentId || null,
+        encryption: encryption ?? null,
         ownerId: req.user!.id,
       });
 
@@ -92,7 +359,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         action: "folder_created",
         targetType: "folder",
         targetId: folder.id,
-        meta: { name, parentId },
+        meta: { name: folder.name, parentId, encrypted: !!encryption },
       });
 
       res.status(201).json(folder);
@@ -100,6 +367,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      if (sendNameConflict(res, error)) return;
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -108,17 +376,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const schema = z.object({
         name: z.string().min(1).max(255).optional(),
-        parentId: z.string().optional(),
+        parentId: z.string().nullable().optional(), // null moves it to the root
       });
-      
+
       const updates = schema.parse(req.body);
       const folder = await storage.getFolderById(req.params.id);
-      
+
       if (!folder || folder.ownerId !== req.user!.id) {
         return res.status(404).json({ message: "Folder not found" });
       }
 
-      const updatedFolder = await storage.updateFolder(req.params.id, updates);
+      // Reparenting goes through the same checks as an explicit move, with the new
+      // name checked in the target and written in the same update
+      const updatedFolder = updates.parentId !== undefined
+        ? await transferService.moveFolder(folder.id, updates.parentId, req.user!.id, "fail", updates.name)
+        : await storage.updateFolder(req.params.id, { name: updates.name });
 
       await storage.createAuditLog({
         userId: req.user!.id,
@@ -133,6 +405,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      if (sendTransferError(res, error)) return;
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -160,6 +433,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  const folderTransferSchema = z.object({
+    parentId: z.string().nullable(), // null is the root
+    onConflict: z.enum(CONFLICT_POLICIES).default("fail"),
+  });
+
+  app.post("/api/folders/:id/move", requireAuth, async (req, res) => {
+    try {
+      const { parentId, onConflict } = folderTransferSchema.parse(req.body);
+      const folder = await transferService.moveFolder(req.params.id, parentId, req.user!.id, onConflict);
+      res.json(folder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (sendTransferError(res, error)) return;
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/folders/:id/copy", requireAuth, async (req, res) => {
+    try {
+      const { parentId, onConflict } = folderTransferSchema.parse(req.body);
+      const folder = await transferService.copyFolder(req.params.id, parentId, req.user!.id, onConflict);
+      res.status(201).json(folder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (sendTransferError(res, error)) return;
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // File routes
   app.get("/api/files/:id", requireAuth, async (req, res) => {
     try {
@@ -190,17 +496,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const schema = z.object({
         name: z.string().min(1).max(255).optional(),
-        folderId: z.string().optional(),
+        folderId: z.string().nullable().optional(), // null moves it to the root
       });
-      
+
       const updates = schema.parse(req.body);
       const file = await storage.getFileById(req.params.id);
-      
+
       if (!file || file.ownerId !== req.user!.id) {
         return res.status(404).json({ message: "File not found" });
       }
 
-      const updatedFile = await storage.updateFile(req.params.id, updates);
+      // Moving goes through the same checks as an explicit move, with the new name
+      // checked in the target and written in the same update
+      const updatedFile = updates.folderId !== undefined
+        ? await transferService.moveFile(file.id, updates.folderId, req.user!.id, "fail", updates.name)
+        : await storage.updateFile(req.params.id, { name: updates.name });
 
       await storage.createAuditLog({
         userId: req.user!.id,
@@ -215,6 +525,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      if (sendTransferError(res, error)) return;
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  const fileTransferSchema = z.object({
+    folderId: z.string().nullable(), // null is the root
+    onConflict: z.enum(CONFLICT_POLICIES).default("fail"),
+  });
+
+  app.post("/api/files/:id/move", requireAuth, async (req, res) => {
+    try {
+      const { folderId, onConflict } = fileTransferSchema.parse(req.body);
+      const file = await transferService.moveFile(req.params.id, folderId, req.user!.id, onConflict);
+      res.json(file);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (sendTransferError(res, error)) return;
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/files/:id/copy", requireAuth, async (req, res) => {
+    try {
+      const { folderId, onConflict } = fileTransferSchema.parse(req.body);
+      const file = await transferService.copyFile(req.params.id, folderId, req.user!.id, onConflict);
+      res.status(201).json(file);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if (sendTransferError(res, error)) return;
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -241,15 +585,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         filename: z.string().min(1),
         size: z.number().positive(),
         folderId: z.string().optional(),
+        fileId: z.string().optional(), // upload a new version of this file
+        encryption: fileEncryptionSchema.optional(), // filename and content are client-side ciphertext
       });
       
-      const { filename, size, folderId } = schema.parse(req.body);
+      const { filename, size, folderId, fileId, encryption } = schema.parse(req.body);
       
       const result = await fileService.initializeUpload(
         filename,
         size,
         req.user!.id,
-        folderId
+        folderId,
+        fileId,
+        encryption
       );
 
       res.json(result);
@@ -257,6 +605,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      if ((error as Error).message === "File too large" || (error as Error).message === "Storage quota exceeded") {
+        return res.status(413).json({ message: (error as Error).message });
+      }
+      if ((error as Error).message === "File not found" || (error as Error).message === "Folder not found") {
+        return res.status(404).json({ message: (error as Error).message });
+      }
+      if (
+        (error as Error).message === "Encrypted folder requires client-side encryption" ||
+        (error as Error).message === "Encrypted uploads require an encrypted folder" ||
+        (error as Error).message === "Encrypted files cannot be versioned"
+      ) {
+        return res.status(400).json({ message: (error as Error).message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/upload/parts", requireAuth, async (req, res) => {
+    try {
+      const schema = z.object({
+        fileId: z.string(),
+        uploadId: z.string(),
+        parts: z.array(z.object({
+          partNumber: z.number().int().positive(),
+          checksum: z.string().regex(/^[a-f0-9]{64}$/i),
+        })).min(1),
+      });
+
+      const { fileId, uploadId, parts } = schema.parse(req.body);
+
+      const urls = await fileService.refreshPartUrls(fileId, uploadId, req.user!.id, parts);
+      res.json({ urls });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if ((error as Error).message === "Upload session not found" || (error as Error).message === "Unauthorized") {
+        return res.status(404).json({ message: "Upload session not found" });
+      }
+      if ((error as Error).message === "Invalid part numbers") {
+        return res.status(400).json({ message: "Invalid part numbers" });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -269,17 +659,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
         parts: z.array(z.object({
           ETag: z.string(),
           PartNumber: z.number(),
+          checksum: z.string().regex(/^[a-f0-9]{64}$/i),
         })),
+        checksum: z.string().regex(/^[a-f0-9]{64}$/i).optional(),
       });
       
-      const { fileId, uploadId, parts } = schema.parse(req.body);
+      const { fileId, uploadId, parts, checksum } = schema.parse(req.body);
       
-      const result = await fileService.completeUpload(fileId, uploadId, parts);
+      const result = await fileService.completeUpload(fileId, uploadId, req.user!.id, parts, checksum);
       res.json(result);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      if ((error as Error).message === "Upload session not found" || (error as Error).message === "Unauthorized") {
+        return res.status(404).json({ message: "Upload session not found" });
+      }
+      if (
+        (error as Error).message === "Invalid part list" ||
+        (error as Error).message === "Part checksum mismatch" ||
+        (error as Error).message === "Checksum mismatch" ||
+        (error as Error).message === "Upload size mismatch"
+      ) {
+        return res.status(400).json({ message: (error as Error).message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/upload/abort", requireAuth, async (req, res) => {
+    try {
+      const schema = z.object({
+        fileId: z.string(),
+        uploadId: z.string(),
+      });
+
+      const { fileId, uploadId } = schema.parse(req.body);
+
+      await fileService.abortUpload(fileId, uploadId, req.user!.id);
+      res.sendStatus(204);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if ((error as Error).message === "Upload session not found" || (error as Error).message === "Unauthorized") {
+        return res.status(404).json({ message: "Upload session not found" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Part uploads for drivers that cannot hand out presigned URLs; the key may contain slashes
+  app.put("/api/upload/local/*/part/:partNumber", requireAuth, async (req, res) => {
+    try {
+      const schema = z.object({
+        uploadId: z.string(),
+        checksum: z.string().regex(/^[a-f0-9]{64}$/i),
+      });
+
+      const { uploadId, checksum } = schema.parse(req.query);
+      const contentLength = parseInt(req.headers["content-length"] || "", 10);
+
+      if (Number.isNaN(contentLength)) {
+        return res.status(411).json({ message: "Content-Length required" });
+      }
+
+      const etag = await fileService.uploadPart(
+        (req.params as Record<string, string>)[0],
+        uploadId,
+        parseInt(req.params.partNumber, 10),
+        req,
+        contentLength,
+        checksum,
+        req.user!.id
+      );
+
+      res.setHeader("ETag", `"${etag}"`);
+      res.sendStatus(200);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if ((error as Error).message === "Upload session not found" || (error as Error).message === "Unauthorized") {
+        return res.status(404).json({ message: "Upload session not found" });
+      }
+      if ((error as Error).message === "Invalid part" || (error as Error).message === "Part checksum mismatch") {
+        return res.status(400).json({ message: (error as Error).message });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -301,6 +767,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(result);
     } catch (error) {
+      if ((error as Error).message === "Folder not found") {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+      if ((error as Error).message === "Encrypted folder requires client-side encryption") {
+        return res.status(400).json({ message: (error as Error).message });
+      }
+      if ((error as Error).message === "Storage quota exceeded") {
+        return res.status(413).json({ message: (error as Error).message });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -309,22 +784,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/files/:id/download", requireAuth, async (req, res) => {
     try {
       const file = await storage.getFileById(req.params.id);
-      if (!file || file.ownerId !== req.user!.id) {
+      if (!file || file.ownerId !== req.user!.id || file.status !== "active") {
         return res.status(404).json({ message: "File not found" });
       }
 
-      if (process.env.STORAGE_DRIVER === "s3") {
-        const downloadUrl = await fileService.getDownloadUrl(req.params.id);
+      // ?inline=1 lets previews render and seek media instead of forcing a save dialog
+      const disposition = req.query.inline === "1" ? "inline" : "attachment";
+
+      if (storageService.supportsPresignedDownloads) {
+        // S3 answers Range and conditional requests on the presigned URL itself
+        const downloadUrl = await fileService.getDownloadUrl(req.params.id, contentDisposition(file, disposition));
         res.redirect(downloadUrl);
       } else {
         // Stream file from local storage
-        const fileBuffer = await storageService.getFile(file.storageKey);
-        res.setHeader("Content-Type", file.mime);
-        res.setHeader("Content-Disposition", `attachment; filename="${file.name}.${file.ext}"`);
-        res.setHeader("Content-Length", file.size);
-        res.send(fileBuffer);
+        const served = await streamFile(req, res, file, disposition);
+        if (!served) return;
       }
 
+      // Keeps the file on its hot storage tier
+      await storage.markFileAccessed(file.id);
       await storage.createAuditLog({
         userId: req.user!.id,
         action: "file_downloaded",
@@ -333,25 +811,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         meta: { filename: `${file.name}.${file.ext}` },
       });
     } catch (error) {
+      // A failure mid-stream has already sent headers; the pipeline tore the response down
+      if (res.headersSent) return;
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Search route
-  app.get("/api/search", requireAuth, async (req, res) => {
+  // Downscaled image renditions: ?size=thumbnail (default) for the grid, ?size=preview for the viewer
+  app.get("/api/files/:id/thumbnail", requireAuth, async (req, res) => {
     try {
-      const schema = z.object({
-        q: z.string().min(1),
-        type: z.string().optional(),
-        ext: z.string().optional(),
-        limit: z.string().transform(Number).optional(),
-      });
-      
-      const { q, type, ext } = schema.parse(req.query);
-      
-      const files = await storage.searchFiles(q, req.user!.id, { type, ext });
-      res.json(files);
+      const kind = z.enum(RENDITION_KINDS).default("thumbnail").parse(req.query.size);
+
+      const file = await storage.getFileById(req.params.id);
+      if (!file || file.ownerId !== req.user!.id || file.status !== "active") {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const rendition = await renditionService.getRendition(file, kind);
+      if (!rendition) {
+        return res.status(404).json({ message: "Thumbnail not available" });
+      }
+
+      // Versioned URLs (?v=) change with the content and can be cached; plain ones revalidate
+      res.setHeader("ETag", `"${rendition.id}-${rendition.size}"`);
+      res.setHeader("Cache-Control", req.query.v ? "private, max-age=86400" : "private, no-cache");
+      if (req.fresh) {
+        return res.status(304).end();
+      }
+
+      const stream = await renditionService.getRenditionStream(rendition);
+      res.setHeader("Content-Type", rendition.mime);
+      res.setHeader("Content-Length", rendition.size);
+      await pipeline(stream, res);
     } catch (error) {
+      if (res.headersSent) return;
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
@@ -359,46 +852,156 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Trash routes
-  app.get("/api/trash", requireAuth, async (req, res) => {
+  // Version routes
+  app.get("/api/files/:id/versions", requireAuth, async (req, res) => {
     try {
-      const trashItems = await storage.getTrashItems(req.user!.id);
-      res.json(trashItems);
+      const versions = await versionService.listVersions(req.params.id, req.user!.id);
+      res.json(versions);
     } catch (error) {
+      if ((error as Error).message === "File not found" || (error as Error).message === "Unauthorized") {
+        return res.status(404).json({ message: "File not found" });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/trash/restore", requireAuth, async (req, res) => {
+  app.get("/api/files/:id/versions/:versionId/download", requireAuth, async (req, res) => {
     try {
-      const schema = z.object({
-        ids: z.array(z.string()),
-        type: z.enum(["file", "folder"]),
-      });
-      
-      const { ids, type } = schema.parse(req.body);
-      
-      for (const id of ids) {
-        await storage.restoreFromTrash(id, type);
-        
-        await storage.createAuditLog({
-          userId: req.user!.id,
-          action: `${type}_restored`,
-          targetType: type,
-          targetId: id,
-          meta: {},
-        });
-      }
+      const { file, version } = await versionService.getVersion(req.params.id, req.params.versionId, req.user!.id);
+      const disposition = req.query.inline === "1" ? "inline" : "attachment";
 
-      res.sendStatus(200);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      // Serve the old content under the file's name, dated by when the version was stored
+      const versionFile: File = {
+        ...file,
+        storageKey: version.storageKey,
+        mime: version.mime,
+        size: version.size,
+        checksum: version.checksum,
+        updatedAt: version.createdAt,
+      };
+
+      if (storageService.supportsPresignedDownloads) {
+        const downloadUrl = await storageService.getSignedDownloadUrl(
+          version.storageKey,
+          contentDisposition(versionFile, disposition)
+        );
+        res.redirect(downloadUrl);
+      } else {
+        const served = await streamFile(req, res, versionFile, disposition);
+        if (!served) return;
+      }
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "file_downloaded",
+        targetType: "file",
+        targetId: file.id,
+        meta: { filename: `${file.name}.${file.ext}`, versionId: version.id },
+      });
+    } catch (error) {
+      if (res.headersSent) return;
+      if ((error as Error).message === "File not found" || (error as Error).message === "Unauthorized") {
+        return res.status(404).json({ message: "File not found" });
+      }
+      if ((error as Error).message === "Version not found") {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/files/:id/versions/:versionId/restore", requireAuth, async (req, res) => {
+    try {
+      const file = await versionService.restoreVersion(req.params.id, req.params.versionId, req.user!.id);
+      res.json(file);
+    } catch (error) {
+      if ((error as Error).message === "File not found" || (error as Error).message === "Unauthorized") {
+        return res.status(404).json({ message: "File not found" });
+      }
+      if ((error as Error).message === "Version not found") {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/files/:id/versions/:versionId", requireAuth, async (req, res) => {
+    try {
+      await versionService.deleteVersion(req.params.id, req.params.versionId, req.user!.id);
+      res.sendStatus(204);
+    } catch (error) {
+      if ((error as Error).message === "File not found" || (error as Error).message === "Unauthorized") {
+        return res.status(404).json({ message: "File not found" });
+      }
+      if ((error as Error).message === "Version not found") {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      if ((error as Error).message === "Cannot delete current version") {
+        return res.status(400).json({ message: "Cannot delete current version" });
       }
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
+  // Search route
+  app.get("/api/search", requireAuth, async (req, res) => {
+    try {
+      const schema = z.object({
+        q: z.string().min(1),
+        type: z.string().optional(),
+        ext: z.string().optional(),
+        limit: z.coerce.number().int().min(1).max(MAX_SEARCH_LIMIT).optional(),
+        offset: z.coerce.number().int().min(0).optional(),
+      });
+      
+      const { q, type, ext, limit, offset } = schema.parse(req.query);
+      
+      const page = await searchService.search(req.user!.id, q, { type, ext, limit, offset });
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Trash routes
+  app.get("/api/trash", requireAuth, async (req, res) => {
+    try {
+      const trashItems = await trashService.list(req.user!.id);
+      res.json(trashItems);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/trash/restore", requireAuth, async (req, res) => {
+    try {
+      const schema = z.object({
+        ids: z.array(z.string()),
+        type: z.enum(["file", "folder"]),
+      });
+      
+      const { ids, type } = schema.parse(req.body);
+      
+      for (const id of ids) {
+        await trashService.restore(id, type, req.user!.id);
+      }
+
+      res.sendStatus(200);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if ((error as Error).message === "Item not found") {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      if (sendNameConflict(res, error)) return;
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   app.post("/api/trash/purge", requireAuth, async (req, res) => {
     try {
       const schema = z.object({
@@ -409,11 +1012,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { ids, type } = schema.parse(req.body);
       
       for (const id of ids) {
-        if (type === "file") {
-          await fileService.permanentlyDeleteFile(id, req.user!.id);
-        } else {
-          await storage.permanentlyDelete(id, "folder");
-        }
+        await trashService.purge(id, type, req.user!.id);
       }
 
       res.sendStatus(200);
@@ -421,6 +1020,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      if ((error as Error).message === "Item not found") {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      if ((error as Error).message === "Item is not in trash") {
+        return res.status(400).json({ message: "Item is not in trash" });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -441,8 +1046,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Hash password if provided
       let passwordHash: string | undefined;
       if (data.password) {
-        const crypto = await import("crypto");
-        passwordHash = crypto.createHash("sha256").update(data.password).digest("hex");
+        passwordHash = shareService.hashPassword(data.password);
       }
 
       const shareLink = await storage.createShareLink({
@@ -464,7 +1068,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json({
         id: shareLink.id,
-        url: `${process.env.SHARE_BASE_URL || "http://localhost:5000"}/s/${shareLink.id}`,
+        url: buildShareUrl(shareLink.id),
         expiresAt: shareLink.expiresAt,
         allowDownload: shareLink.allowDownload,
       });
@@ -476,6 +1080,184 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/shares", requireAuth, async (req, res) => {
+    try {
+      const links = await shareService.listShareLinks(req.user!.id);
+      res.json(links.map(link => ({ ...link, url: buildShareUrl(link.id) })));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/shares/:id", requireAuth, async (req, res) => {
+    try {
+      const schema = z.object({
+        expiresAt: z.string().datetime().nullable().optional(),
+        allowDownload: z.boolean().optional(),
+        password: z.string().min(1).nullable().optional(),
+      }).refine((data) => Object.values(data).some((value) => value !== undefined), {
+        message: "Nothing to update",
+      });
+
+      const data = schema.parse(req.body);
+
+      const shareLink = await shareService.updateShareLink(req.params.id, req.user!.id, {
+        expiresAt: data.expiresAt === undefined ? undefined : data.expiresAt ? new Date(data.expiresAt) : null,
+        allowDownload: data.allowDownload,
+        password: data.password,
+      });
+
+      res.json({
+        id: shareLink.id,
+        url: buildShareUrl(shareLink.id),
+        expiresAt: shareLink.expiresAt,
+        allowDownload: shareLink.allowDownload,
+        passwordProtected: !!shareLink.passwordHash,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if ((error as Error).message === "Share link not found" || (error as Error).message === "Unauthorized") {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/shares/:id", requireAuth, async (req, res) => {
+    try {
+      await shareService.revokeShareLink(req.params.id, req.user!.id);
+      res.sendStatus(204);
+    } catch (error) {
+      if ((error as Error).message === "Share link not found" || (error as Error).message === "Unauthorized") {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Public share resolution
+  app.get("/api/public/shares/:id", async (req, res) => {
+    try {
+      const share = await loadPublicShare(req, res);
+      if (!share) return;
+
+      res.json({
+        id: share.shareLink.id,
+        resourceType: share.shareLink.resourceType,
+        allowDownload: share.shareLink.allowDownload,
+        expiresAt: share.shareLink.expiresAt,
+        file: share.file ? toPublicFile(share.file) : undefined,
+        folder: share.folder ? toPublicFolder(share.folder) : undefined,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/public/shares/:id/unlock", shareUnlockLimiter, async (req, res) => {
+    try {
+      const schema = z.object({
+        password: z.string().min(1),
+      });
+
+      const { password } = schema.parse(req.body);
+      const { shareLink } = await shareService.resolveShare(req.params.id);
+
+      if (!shareService.verifyPassword(shareLink, password)) {
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      // Replaces any token from an earlier password of the same share
+      const unlocked = (req.session.unlockedShares || []).filter((token) => !token.startsWith(`${shareLink.id}:`));
+      req.session.unlockedShares = [...unlocked, shareService.unlockToken(shareLink)];
+
+      res.sendStatus(200);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if ((error as Error).message === "Share link not found") {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      if ((error as Error).message === "Share link expired") {
+        return res.status(410).json({ message: "Share link expired" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/public/shares/:id/folders", async (req, res) => {
+    try {
+      const share = await loadPublicShare(req, res);
+      if (!share) return;
+
+      const { folder } = req.query;
+      const contents = await shareService.getSharedFolderContents(share, folder as string || undefined);
+
+      res.json({
+        folder: toPublicFolder(contents.folder),
+        isRoot: contents.folder.id === share.folder!.id,
+        parentId: contents.folder.id === share.folder!.id ? null : contents.folder.parentId,
+        folders: contents.folders.map(toPublicFolder),
+        files: contents.files.map(toPublicFile),
+      });
+    } catch (error) {
+      if ((error as Error).message === "Folder not found") {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/public/shares/:id/files/:fileId/content", async (req, res) => {
+    try {
+      const share = await loadPublicShare(req, res);
+      if (!share) return;
+
+      const file = await shareService.getSharedFile(share, req.params.fileId);
+      const asAttachment = req.query.download === "1";
+
+      if (asAttachment && !share.shareLink.allowDownload) {
+        return res.status(403).json({ message: "Downloads are disabled for this link" });
+      }
+
+      const disposition = asAttachment ? "attachment" : "inline";
+      let served = true;
+
+      if (storageService.supportsPresignedDownloads) {
+        const downloadUrl = await storageService.getSignedDownloadUrl(
+          file.storageKey,
+          contentDisposition(file, disposition)
+        );
+        res.redirect(downloadUrl);
+      } else {
+        served = await streamFile(req, res, file, disposition);
+      }
+
+      if (served) {
+        await storage.markFileAccessed(file.id);
+      }
+
+      if (asAttachment && served) {
+        await storage.createAuditLog({
+          userId: share.shareLink.createdBy,
+          action: "share_link_downloaded",
+          targetType: "file",
+          targetId: file.id,
+          meta: { shareId: share.shareLink.id, filename: `${file.name}.${file.ext}` },
+        });
+      }
+    } catch (error) {
+      if (res.headersSent) return;
+      if ((error as Error).message === "File not found") {
+        return res.status(404).json({ message: "File not found" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Batch download
   app.post("/api/download/batch", requireAuth, async (req, res) => {
     try {
@@ -504,17 +1286,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const archive = archiver("zip", { zlib: { level: 9 } });
       archive.pipe(res);
 
+      // Open one stream at a time so large batches never hold every object open at once
       for (const file of validFiles) {
+        let stream;
         try {
-          const fileBuffer = await storageService.getFile(file!.storageKey);
-          archive.append(fileBuffer, { name: `${file!.name}.${file!.ext}` });
+          stream = await storageService.getFileStream(file!.storageKey);
         } catch (error) {
           console.error(`Failed to add file ${file!.id} to archive:`, error);
+          continue;
         }
+
+        archive.append(stream, { name: `${file!.name}.${file!.ext}` });
+        await once(archive, "entry");
+        await storage.markFileAccessed(file!.id);
       }
 
       await archive.finalize();
     } catch (error) {
+      if (res.headersSent) {
+        console.error("Batch download failed mid-stream:", error);
+        return res.destroy();
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
@@ -525,17 +1317,253 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // User stats
   app.get("/api/me/usage", requireAuth, async (req, res) => {
     try {
-      const files = await storage.getFilesByFolder(null, req.user!.id);
-      const totalSize = files.reduce((sum, file) => sum + file.size, 0);
-      const totalFiles = files.length;
-      
-      res.json({
-        totalSize,
-        totalFiles,
-        quota: 5 * 1024 * 1024 * 1024, // 5GB default
-        percentage: Math.round((totalSize / (5 * 1024 * 1024 * 1024)) * 100),
+      const usage = await quotaService.getUsage(req.user!.id);
+      res.json(usage);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Admin routes
+  app.get("/api/admin/stats", requireAdmin, async (req, res) => {
+    try {
+      const dedup = await blobService.getStats();
+      res.json({ dedup });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/quota-settings", requireAdmin, async (req, res) => {
+    try {
+      const settings = await quotaService.getSettings();
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/admin/quota-settings", requireAdmin, async (req, res) => {
+    try {
+      const updates = quotaSettingsSchema.partial().parse(req.body);
+      const settings = await quotaService.updateSettings(updates, req.user!.id);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Sets a user's own quota in bytes; null puts them back on the default
+  app.put("/api/admin/users/:id/quota", requireAdmin, async (req, res) => {
+    try {
+      const schema = z.object({
+        quota: z.number().int().nonnegative().nullable(),
       });
+
+      const { quota } = schema.parse(req.body);
+      await quotaService.setUserQuota(req.params.id, quota, req.user!.id);
+      const usage = await quotaService.getUsage(req.params.id);
+      res.json(usage);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if ((error as Error).message === "User not found") {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/trash-settings", requireAdmin, async (req, res) => {
+    try {
+      const settings = await trashService.getSettings();
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/admin/trash-settings", requireAdmin, async (req, res) => {
+    try {
+      const updates = trashSettingsSchema.partial().parse(req.body);
+      const settings = await trashService.updateSettings(updates, req.user!.id);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Sets how long a user's trash is kept; null puts them back on the default
+  app.put("/api/admin/users/:id/trash-retention", requireAdmin, async (req, res) => {
+    try {
+      const schema = z.object({
+        retentionDays: z.number().int().min(1).nullable(),
+      });
+
+      const { retentionDays } = schema.parse(req.body);
+      const user = await trashService.setUserRetention(req.params.id, retentionDays, req.user!.id);
+      res.json({ userId: user.id, retentionDays: user.trashRetentionDays });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if ((error as Error).message === "User not found") {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Progress of storage driver migrations, which run from `npm run storage:migrate`
+  app.get("/api/admin/storage-migrations", requireAdmin, async (req, res) => {
+    try {
+      const migrations = await storageMigrationService.listMigrations();
+      res.json(migrations);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Storage integrity scrubs; a scrub walks the whole backend, so it runs in the background
+  app.get("/api/admin/scrub", requireAdmin, async (req, res) => {
+    try {
+      const runs = await scrubService.listRuns();
+      res.json(runs);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/scrub", requireAdmin, async (req, res) => {
+    try {
+      const options = z.object({
+        repair: z.boolean().optional(),
+        verifyChecksums: z.boolean().optional(),
+      }).parse(req.body ?? {});
+
+      const run = await scrubService.start(options);
+      res.status(202).json(run);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      if ((error as Error).message === "Scrub already running") {
+        return res.status(409).json({ message: "Scrub already running" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Background job queue: counts by status plus the most recent jobs, optionally filtered
+  app.get("/api/admin/jobs", requireAdmin, async (req, res) => {
+    try {
+      const status = z.enum(["queued", "running", "dead"]).optional().parse(req.query.status);
+      const summary = await jobQueue.list(status);
+      res.json(summary);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/jobs/:id/retry", requireAdmin, async (req, res) => {
+    try {
+      const job = await jobQueue.retry(req.params.id);
+      res.json(job);
+    } catch (error) {
+      const message = (error as Error).message;
+      if (message === "Job not found") {
+        return res.status(404).json({ message });
+      }
+      if (message === "Only dead jobs can be retried") {
+        return res.status(409).json({ message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/admin/jobs/:id", requireAdmin, async (req, res) => {
+    try {
+      await jobQueue.discard(req.params.id);
+      res.sendStatus(204);
     } catch (error) {
+      const message = (error as Error).message;
+      if (message === "Job not found") {
+        return res.status(404).json({ message });
+      }
+      if (message === "Only dead jobs can be discarded") {
+        return res.status(409).json({ message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Storage backends and the rules placing new content on them
+  app.get("/api/admin/storage-backends", requireAdmin, async (req, res) => {
+    try {
+      const usage = await storage.getBackendUsage(storageService.defaultBackend);
+      res.json(storageService.configs.map((config) => {
+        const used = usage.find((entry) => entry.backend === config.name);
+        return {
+          name: config.name,
+          driver: config.driver,
+          isDefault: config.name === storageService.defaultBackend,
+          isCold: config.name === storageService.coldBackend,
+          fileCount: used?.fileCount ?? 0,
+          bytes: used?.bytes ?? 0,
+        };
+      }));
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/placement-rules", requireAdmin, async (req, res) => {
+    try {
+      const rules = await placementService.listRules();
+      res.json(rules);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/placement-rules", requireAdmin, async (req, res) => {
+    try {
+      const rule = insertPlacementRuleSchema.parse(req.body);
+      const created = await placementService.createRule(rule);
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      const message = (error as Error).message;
+      if (message === "Unknown storage backend" || message === "Invalid size range") {
+        return res.status(400).json({ message });
+      }
+      if (message === "User not found" || message === "Folder not found") {
+        return res.status(404).json({ message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/admin/placement-rules/:id", requireAdmin, async (req, res) => {
+    try {
+      await placementService.deleteRule(req.params.id);
+      res.sendStatus(204);
+    } catch (error) {
+      if ((error as Error).message === "Placement rule not found") {
+        return res.status(404).json({ message: "Placement rule not found" });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -0,0 +1,29 @@
+// Queues a checksum job for every stored object recorded without one, so content
+// uploaded before completion was verified can be deduplicated and scrubbed too.
+//
+// Usage: npm run checksums:backfill
+//
+// The running server's job worker does the hashing; re-running only queues what is
+// still missing a checksum.
+import { storage } from "../storage";
+import { jobQueue } from "../services/jobQueue";
+import { FILE_JOBS } from "../services/fileService";
+import { pool } from "../db";
+
+async function main() {
+  const objects = await storage.getStoredObjects();
+  const missing = objects.filter((object) => !object.checksum);
+
+  for (const object of missing) {
+    await jobQueue.enqueue(FILE_JOBS.checksum, { storageKey: object.storageKey });
+  }
+
+  console.log(`Queued checksum jobs for ${missing.length} of ${objects.length} stored objects`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Checksum backfill failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,33 @@
+// Queues text extraction for the current content of every file that has never been
+// indexed for full-text search, such as files uploaded before search indexed content.
+//
+// Usage: npm run search:reindex
+//
+// The running server's job worker does the extraction; re-running only queues what is
+// still missing.
+import { storage } from "../storage";
+import { jobQueue } from "../services/jobQueue";
+import { searchService } from "../services/searchService";
+import { FILE_JOBS } from "../services/fileService";
+import { pool } from "../db";
+
+async function main() {
+  const files = (await storage.getUnindexedFiles()).filter((file) => searchService.canIndex(file));
+
+  // Deduplicated content only needs extracting once
+  const queued = new Set<string>();
+  for (const file of files) {
+    if (queued.has(file.storageKey)) continue;
+    queued.add(file.storageKey);
+    await jobQueue.enqueue(FILE_JOBS.index, { storageKey: file.storageKey, mime: file.mime, ext: file.ext });
+  }
+
+  console.log(`Queued text extraction for ${queued.size} stored objects`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Search reindex failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,19 @@
+// Re-wraps every user data key under the current STORAGE_ENCRYPTION_KEY.
+//
+// To rotate the master key: move the old key into STORAGE_ENCRYPTION_PREVIOUS_KEYS,
+// set the new one as STORAGE_ENCRYPTION_KEY, run `npm run keys:rotate`, then drop
+// the old key once this reports nothing left to re-wrap.
+import { keyService } from "../services/encryptionService";
+import { pool } from "../db";
+
+async function main() {
+  const rotated = await keyService.rotateDataKeys();
+  console.log(`Re-wrapped ${rotated} data key(s) under the current master key`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Key rotation failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,172 @@
+import { storage } from "../storage";
+import {
+  createStorageService,
+  isNotFound,
+  STORAGE_DRIVERS,
+  type ByteRange,
+  type MultipartCompletion,
+  type MultipartOptions,
+  type PartChecksum,
+  type PartUploadTarget,
+  type StorageService,
+  type StoredObjectInfo,
+  type UploadedPart,
+} from "./s3Service";
+import type { Readable } from "stream";
+import { z } from "zod";
+
+const backendConfigSchema = z.array(z.object({
+  name: z.string().regex(/^[a-z0-9_-]+$/i),
+  driver: z.enum(STORAGE_DRIVERS),
+  path: z.string().optional(),
+  bucket: z.string().optional(),
+  region: z.string().optional(),
+  endpoint: z.string().optional(),
+})).min(1);
+
+export type StorageBackendConfig = z.infer<typeof backendConfigSchema>[number];
+
+// Without STORAGE_BACKENDS there is a single backend configured the way a single
+// driver always was, read fallback included
+function loadBackendConfigs(): StorageBackendConfig[] {
+  if (!process.env.STORAGE_BACKENDS) {
+    return [{ name: "default", driver: process.env.STORAGE_DRIVER === "s3" ? "s3" : "local" }];
+  }
+  return backendConfigSchema.parse(JSON.parse(process.env.STORAGE_BACKENDS));
+}
+
+// Routes every call to the backend holding the object. Objects are placed by
+// recording their backend before anything is written, so callers only ever deal in keys.
+export class StorageBackendRouter implements StorageService {
+  readonly supportsPresignedDownloads: boolean;
+  readonly defaultBackend: string;
+  readonly coldBackend: string | undefined;
+  private backends = new Map<string, StorageService>();
+
+  constructor(readonly configs: StorageBackendConfig[]) {
+    const fallback = process.env.STORAGE_BACKENDS
+      ? undefined
+      : STORAGE_DRIVERS.find((name) => name === process.env.STORAGE_FALLBACK_DRIVER);
+
+    for (const config of configs) {
+      if (this.backends.has(config.name)) {
+        throw new Error(`Duplicate storage backend ${config.name}`);
+      }
+      this.backends.set(config.name, createStorageService(config.driver, fallback, config));
+    }
+
+    this.defaultBackend = process.env.STORAGE_DEFAULT_BACKEND || configs[0].name;
+    this.coldBackend = process.env.STORAGE_COLD_BACKEND || undefined;
+    [this.defaultBackend, this.coldBackend].forEach((name) => {
+      if (name) this.get(name);
+    });
+
+    this.supportsPresignedDownloads = Array.from(this.backends.values())
+      .every((backend) => backend.supportsPresignedDownloads);
+  }
+
+  has(name: string): boolean {
+    return this.backends.has(name);
+  }
+
+  get(name: string): StorageService {
+    const backend = this.backends.get(name);
+    if (!backend) {
+      throw new Error(`Unknown storage backend ${name}`);
+    }
+    return backend;
+  }
+
+  async locate(key: string): Promise<string> {
+    return (await storage.getObjectBackend(key)) ?? this.defaultBackend;
+  }
+
+  private async route(key: string): Promise<StorageService> {
+    return this.get(await this.locate(key));
+  }
+
+  async uploadFile(key: string, buffer: Buffer, contentType: string): Promise<void> {
+    await (await this.route(key)).uploadFile(key, buffer, contentType);
+  }
+
+  async getFile(key: string): Promise<Buffer> {
+    return await (await this.route(key)).getFile(key);
+  }
+
+  async getFileStream(key: string, range?: ByteRange): Promise<Readable> {
+    return await (await this.route(key)).getFileStream(key, range);
+  }
+
+  async deleteFile(key: string): Promise<void> {
+    await (await this.route(key)).deleteFile(key);
+    await storage.deleteObjectLocation(key);
+  }
+
+  async getSignedUploadUrl(key: string, contentType: string): Promise<string> {
+    return await (await this.route(key)).getSignedUploadUrl(key, contentType);
+  }
+
+  async getSignedDownloadUrl(key: string, disposition?: string): Promise<string> {
+    return await (await this.route(key)).getSignedDownloadUrl(key, disposition);
+  }
+
+  async createMultipartUpload(key: string, contentType: string, options?: MultipartOptions): Promise<{ uploadId: string }> {
+    return await (await this.route(key)).createMultipartUpload(key, contentType, options);
+  }
+
+  async getMultipartUploadUrls(key: string, uploadId: string, parts: PartChecksum[]): Promise<PartUploadTarget[]> {
+    return await (await this.route(key)).getMultipartUploadUrls(key, uploadId, parts);
+  }
+
+  async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Readable,
+    contentLength: number,
+    offset: number
+  ): Promise<string> {
+    return await (await this.route(key)).uploadPart(key, uploadId, partNumber, body, contentLength, offset);
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadedPart[]
+  ): Promise<MultipartCompletion> {
+    return await (await this.route(key)).completeMultipartUpload(key, uploadId, parts);
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await (await this.route(key)).abortMultipartUpload(key, uploadId);
+  }
+
+  async *listObjects(): AsyncIterable<StoredObjectInfo> {
+    const seen = new Set<string>();
+    for (const backend of Array.from(this.backends.values())) {
+      for await (const object of backend.listObjects()) {
+        if (seen.has(object.key)) continue;
+        seen.add(object.key);
+        yield object;
+      }
+    }
+  }
+
+  // Unrecorded objects (orphans, mostly) may sit on any backend
+  async moveObject(fromKey: string, toKey: string): Promise<void> {
+    const located = await this.locate(fromKey);
+    const candidates = [located, ...Array.from(this.backends.keys()).filter((name) => name !== located)];
+
+    for (let i = 0; i < candidates.length; i++) {
+      try {
+        await this.get(candidates[i]).moveObject(fromKey, toKey);
+        break;
+      } catch (error) {
+        if (!isNotFound(error) || i === candidates.length - 1) throw error;
+      }
+    }
+    await storage.deleteObjectLocation(fromKey);
+  }
+}
+
+export const storageService = new StorageBackendRouter(loadBackendConfigs());
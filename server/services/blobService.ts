@@ -0,0 +1,77 @@
+import { storage } from "../storage";
+import { storageService } from "./backendService";
+import { renditionService } from "./renditionService";
+import { searchService } from "./searchService";
+
+export interface DedupStats {
+  blobCount: number;
+  storedBytes: number; // bytes actually held in storage
+  referencedBytes: number; // bytes the stored versions would take without deduplication
+  savedBytes: number;
+}
+
+// Stores identical content once. Blobs are keyed by SHA-256 and reference counted
+// by the file versions that point at them.
+export class BlobService {
+  // Takes a reference on already stored content, returning its key, or null when
+  // nothing with this checksum has been stored yet
+  async reuse(checksum: string): Promise<string | null> {
+    const blob = await storage.incrementBlobRefs(checksum);
+    return blob ? blob.storageKey : null;
+  }
+
+  // Records a freshly written object. When identical content was stored in the
+  // meantime the new object is a duplicate: it is deleted and the existing key returned
+  async register(checksum: string, storageKey: string, size: number): Promise<string> {
+    const blob = await storage.upsertBlob({ checksum, storageKey, size });
+
+    if (blob.storageKey !== storageKey) {
+      try {
+        await storageService.deleteFile(storageKey);
+      } catch (error) {
+        console.error("Failed to delete duplicate object from storage:", error);
+      }
+    }
+
+    return blob.storageKey;
+  }
+
+  // Records content that was stored without a blob once its checksum is known, so
+  // later copies can share it. Content duplicating an existing blob stays as it is.
+  async adopt(checksum: string, storageKey: string, size: number): Promise<void> {
+    await storage.adoptBlob({ checksum, storageKey, size });
+  }
+
+  // Drops a reference and deletes the object once nothing points at it. Objects
+  // stored before deduplication have no blob and are deleted straight away.
+  async release(storageKey: string): Promise<void> {
+    const blob = await storage.decrementBlobRefs(storageKey);
+    if (blob && blob.refCount > 0) {
+      return;
+    }
+
+    // Only the caller that removes the row deletes the object, so a concurrent
+    // reuse() that revived the blob keeps its content
+    if (blob && !(await storage.deleteUnreferencedBlob(blob.checksum))) {
+      return;
+    }
+
+    try {
+      await storageService.deleteFile(storageKey);
+    } catch (error) {
+      console.error("Failed to delete file from storage:", error);
+    }
+    await renditionService.deleteRenditions(storageKey);
+    await searchService.removeContent(storageKey);
+  }
+
+  async getStats(): Promise<DedupStats> {
+    const stats = await storage.getBlobStats();
+    return {
+      ...stats,
+      savedBytes: stats.referencedBytes - stats.storedBytes,
+    };
+  }
+}
+
+export const blobService = new BlobService();
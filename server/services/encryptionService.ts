@@ -0,0 +1,391 @@
+import { storage } from "../storage";
+import { originalKey, partRouteUrl, type ByteRange, type MultipartCompletion, type MultipartOptions, type PartChecksum, type PartUploadTarget, type StorageService, type StoredObjectInfo, type UploadedPart } from "./s3Service";
+import crypto from "crypto";
+import { Readable } from "stream";
+
+// Encrypted objects start with this marker so plaintext written before encryption
+// was enabled can still be read
+const MAGIC = Buffer.from("VAULTENC");
+const HEADER_SIZE = MAGIC.length;
+
+// Content is sealed in fixed-size AES-256-GCM segments so ranges can be decrypted
+// without reading the whole object. Each segment is nonce || ciphertext || tag and
+// is bound to its position through the additional authenticated data.
+const SEGMENT_SIZE = 64 * 1024;
+const NONCE_SIZE = 12;
+const TAG_SIZE = 16;
+const SEGMENT_OVERHEAD = NONCE_SIZE + TAG_SIZE;
+const SEALED_SEGMENT_SIZE = SEGMENT_SIZE + SEGMENT_OVERHEAD;
+
+const KEY_SIZE = 32;
+
+function parseMasterKey(value: string): Buffer {
+  const key = Buffer.from(value.trim(), "base64");
+  if (key.length !== KEY_SIZE) {
+    throw new Error("Encryption keys must be 32 bytes encoded as base64");
+  }
+  return key;
+}
+
+function getMasterKeyId(masterKey: Buffer): string {
+  return crypto.createHash("sha256").update(masterKey).digest("hex").slice(0, 16);
+}
+
+function segmentAad(index: number): Buffer {
+  const aad = Buffer.alloc(8);
+  aad.writeBigUInt64BE(BigInt(index));
+  return aad;
+}
+
+function sealSegment(key: Buffer, index: number, plaintext: Buffer): Buffer {
+  const nonce = crypto.randomBytes(NONCE_SIZE);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, nonce);
+  cipher.setAAD(segmentAad(index));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([nonce, ciphertext, cipher.getAuthTag()]);
+}
+
+function openSegment(key: Buffer, index: number, sealed: Buffer): Buffer {
+  if (sealed.length <= SEGMENT_OVERHEAD) {
+    throw new Error("Corrupt encrypted object");
+  }
+
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, sealed.subarray(0, NONCE_SIZE));
+  decipher.setAAD(segmentAad(index));
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_SIZE));
+  return Buffer.concat([
+    decipher.update(sealed.subarray(NONCE_SIZE, sealed.length - TAG_SIZE)),
+    decipher.final(),
+  ]);
+}
+
+// Regroups a byte stream into blocks of blockSize, passing the short tail last
+async function* blocks(source: AsyncIterable<Buffer>, blockSize: number): AsyncGenerator<Buffer> {
+  let buffered = Buffer.alloc(0);
+  for await (const chunk of source) {
+    buffered = buffered.length > 0 ? Buffer.concat([buffered, chunk]) : chunk;
+    while (buffered.length >= blockSize) {
+      yield buffered.subarray(0, blockSize);
+      buffered = buffered.subarray(blockSize);
+    }
+  }
+  if (buffered.length > 0) {
+    yield buffered;
+  }
+}
+
+async function* encryptSegments(
+  source: AsyncIterable<Buffer>,
+  key: Buffer,
+  firstSegment: number,
+  withHeader: boolean
+): AsyncGenerator<Buffer> {
+  if (withHeader) {
+    yield MAGIC;
+  }
+  let index = firstSegment;
+  for await (const block of blocks(source, SEGMENT_SIZE)) {
+    yield sealSegment(key, index++, block);
+  }
+}
+
+async function* decryptSegments(
+  source: AsyncIterable<Buffer>,
+  key: Buffer,
+  firstSegment: number,
+  skip: number,
+  length: number
+): AsyncGenerator<Buffer> {
+  let index = firstSegment;
+  let remaining = length;
+  for await (const block of blocks(source, SEALED_SEGMENT_SIZE)) {
+    let plaintext = openSegment(key, index++, block);
+    if (skip > 0) {
+      plaintext = plaintext.subarray(skip);
+      skip = 0;
+    }
+    if (plaintext.length >= remaining) {
+      yield plaintext.subarray(0, remaining);
+      return;
+    }
+    remaining -= plaintext.length;
+    yield plaintext;
+  }
+}
+
+function sealedLength(plaintextLength: number): number {
+  return plaintextLength + Math.ceil(plaintextLength / SEGMENT_SIZE) * SEGMENT_OVERHEAD;
+}
+
+// Manages per-user data keys. Each user gets a random key, stored wrapped by the
+// master key from STORAGE_ENCRYPTION_KEY; keys listed in STORAGE_ENCRYPTION_PREVIOUS_KEYS
+// can still unwrap until rotateDataKeys() re-wraps everything under the current one.
+export class KeyService {
+  private masterKey?: Buffer;
+  private masterKeyId?: string;
+  private previousKeys = new Map<string, Buffer>();
+  private dataKeys = new Map<string, Buffer>();
+
+  private loadMasterKeys() {
+    if (this.masterKey) {
+      return;
+    }
+
+    if (!process.env.STORAGE_ENCRYPTION_KEY) {
+      throw new Error("STORAGE_ENCRYPTION_KEY is not set");
+    }
+
+    this.masterKey = parseMasterKey(process.env.STORAGE_ENCRYPTION_KEY);
+    this.masterKeyId = getMasterKeyId(this.masterKey);
+
+    for (const value of (process.env.STORAGE_ENCRYPTION_PREVIOUS_KEYS || "").split(",")) {
+      if (value.trim()) {
+        const key = parseMasterKey(value);
+        this.previousKeys.set(getMasterKeyId(key), key);
+      }
+    }
+  }
+
+  private wrap(dataKey: Buffer): string {
+    const nonce = crypto.randomBytes(NONCE_SIZE);
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.masterKey!, nonce);
+    const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+    return Buffer.concat([nonce, wrapped, cipher.getAuthTag()]).toString("base64");
+  }
+
+  private unwrap(wrappedKey: string, masterKeyId: string): Buffer {
+    const masterKey = masterKeyId === this.masterKeyId ? this.masterKey : this.previousKeys.get(masterKeyId);
+    if (!masterKey) {
+      throw new Error(`No master key available for key id ${masterKeyId}`);
+    }
+
+    const sealed = Buffer.from(wrappedKey, "base64");
+    const decipher = crypto.createDecipheriv("aes-256-gcm", masterKey, sealed.subarray(0, NONCE_SIZE));
+    decipher.setAuthTag(sealed.subarray(sealed.length - TAG_SIZE));
+    return Buffer.concat([
+      decipher.update(sealed.subarray(NONCE_SIZE, sealed.length - TAG_SIZE)),
+      decipher.final(),
+    ]);
+  }
+
+  async getDataKey(userId: string): Promise<Buffer> {
+    const cached = this.dataKeys.get(userId);
+    if (cached) {
+      return cached;
+    }
+
+    this.loadMasterKeys();
+
+    let record = await storage.getUserKey(userId);
+    if (!record) {
+      record = await storage.createUserKey({
+        userId,
+        wrappedKey: this.wrap(crypto.randomBytes(KEY_SIZE)),
+        masterKeyId: this.masterKeyId!,
+      });
+    }
+
+    const dataKey = this.unwrap(record.wrappedKey, record.masterKeyId);
+    this.dataKeys.set(userId, dataKey);
+    return dataKey;
+  }
+
+  // Objects get their own key derived from the owner's data key and the storage key.
+  // Quarantined objects keep the key they were sealed with, so they can still be opened.
+  async getObjectKey(storageKey: string): Promise<Buffer> {
+    const sealedKey = originalKey(storageKey);
+    // Storage keys are namespaced by owner, see FileService.generateStorageKey
+    const ownerId = sealedKey.split("/")[0];
+    if (!ownerId) {
+      throw new Error("Cannot determine owner of storage key");
+    }
+
+    const dataKey = await this.getDataKey(ownerId);
+    return Buffer.from(crypto.hkdfSync("sha256", dataKey, Buffer.alloc(0), `vault-object:${sealedKey}`, KEY_SIZE));
+  }
+
+  // Re-wraps every data key still wrapped by a previous master key; the data keys
+  // themselves, and therefore all stored objects, are unchanged
+  async rotateDataKeys(): Promise<number> {
+    this.loadMasterKeys();
+
+    const stale = await storage.getUserKeysNotWrappedBy(this.masterKeyId!);
+    for (const record of stale) {
+      const dataKey = this.unwrap(record.wrappedKey, record.masterKeyId);
+      await storage.updateUserKey(record.userId, {
+        wrappedKey: this.wrap(dataKey),
+        masterKeyId: this.masterKeyId!,
+        rotatedAt: new Date(),
+      });
+    }
+
+    return stale.length;
+  }
+}
+
+// Wraps a storage driver so objects are encrypted before they are written and
+// decrypted transparently on read. Parts are encrypted as they stream through the
+// server, so presigned uploads and downloads are disabled.
+export class EncryptedStorageService implements StorageService {
+  readonly supportsPresignedDownloads = false;
+
+  constructor(private inner: StorageService, private keys: KeyService) {}
+
+  private async isEncrypted(key: string): Promise<boolean> {
+    const chunks: Buffer[] = [];
+    try {
+      for await (const chunk of await this.inner.getFileStream(key, { start: 0, end: HEADER_SIZE - 1 })) {
+        chunks.push(chunk);
+      }
+    } catch {
+      // Empty or missing objects; the actual read reports any real error
+      return false;
+    }
+    return Buffer.concat(chunks).equals(MAGIC);
+  }
+
+  async uploadFile(key: string, buffer: Buffer, contentType: string): Promise<void> {
+    const objectKey = await this.keys.getObjectKey(key);
+    const chunks: Buffer[] = [];
+    for await (const chunk of encryptSegments(Readable.from([buffer]), objectKey, 0, true)) {
+      chunks.push(chunk);
+    }
+    await this.inner.uploadFile(key, Buffer.concat(chunks), contentType);
+  }
+
+  async getFile(key: string): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.getFileStream(key)) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async getFileStream(key: string, range?: ByteRange): Promise<Readable> {
+    if (!(await this.isEncrypted(key))) {
+      return await this.inner.getFileStream(key, range);
+    }
+
+    const objectKey = await this.keys.getObjectKey(key);
+    if (!range) {
+      const source = await this.inner.getFileStream(key);
+      return Readable.from(decryptSegments(skipBytes(source, HEADER_SIZE), objectKey, 0, 0, Infinity));
+    }
+
+    // Fetch only the sealed segments covering the requested bytes
+    const firstSegment = Math.floor(range.start / SEGMENT_SIZE);
+    const lastSegment = Math.floor(range.end / SEGMENT_SIZE);
+    const source = await this.inner.getFileStream(key, {
+      start: HEADER_SIZE + firstSegment * SEALED_SEGMENT_SIZE,
+      end: HEADER_SIZE + (lastSegment + 1) * SEALED_SEGMENT_SIZE - 1,
+    });
+
+    return Readable.from(decryptSegments(
+      source,
+      objectKey,
+      firstSegment,
+      range.start - firstSegment * SEGMENT_SIZE,
+      range.end - range.start + 1
+    ));
+  }
+
+  async deleteFile(key: string): Promise<void> {
+    await this.inner.deleteFile(key);
+  }
+
+  async getSignedUploadUrl(_key: string, _contentType: string): Promise<string> {
+    throw new Error("Presigned uploads are unavailable while encryption is enabled");
+  }
+
+  async getSignedDownloadUrl(_key: string, _disposition?: string): Promise<string> {
+    throw new Error("Presigned downloads are unavailable while encryption is enabled");
+  }
+
+  // The inner driver only ever gets ciphertext, which the client has no checksums for
+  async createMultipartUpload(key: string, contentType: string, _options?: MultipartOptions): Promise<{ uploadId: string }> {
+    return await this.inner.createMultipartUpload(key, contentType);
+  }
+
+  // Parts must pass through the server to be encrypted, so use the proxied part route
+  async getMultipartUploadUrls(key: string, uploadId: string, parts: PartChecksum[]): Promise<PartUploadTarget[]> {
+    return parts.map(({ partNumber, checksum }) => ({ url: partRouteUrl(key, uploadId, partNumber, checksum) }));
+  }
+
+  async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Readable,
+    contentLength: number,
+    offset: number
+  ): Promise<string> {
+    // Part sizes are whole megabytes, so every part starts on a segment boundary
+    if (offset % SEGMENT_SIZE !== 0) {
+      throw new Error("Part offset is not segment aligned");
+    }
+
+    const objectKey = await this.keys.getObjectKey(key);
+    const withHeader = offset === 0;
+    const sealed = Readable.from(encryptSegments(body, objectKey, offset / SEGMENT_SIZE, withHeader));
+
+    return await this.inner.uploadPart(
+      key,
+      uploadId,
+      partNumber,
+      sealed,
+      (withHeader ? HEADER_SIZE : 0) + sealedLength(contentLength),
+      offset
+    );
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadedPart[]
+  ): Promise<MultipartCompletion> {
+    const { etag } = await this.inner.completeMultipartUpload(
+      key,
+      uploadId,
+      parts.map(({ ETag, PartNumber }) => ({ ETag, PartNumber }))
+    );
+
+    // The driver only sees ciphertext; report the plaintext checksum and size so
+    // deduplication and size checks keep working, verifying every segment on the way
+    const hash = crypto.createHash("sha256");
+    let size = 0;
+    for await (const chunk of await this.getFileStream(key)) {
+      hash.update(chunk);
+      size += chunk.length;
+    }
+
+    // Every part came through the part route, which checks the plaintext against its checksum
+    return { checksum: hash.digest("hex"), size, etag, partsVerified: true };
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await this.inner.abortMultipartUpload(key, uploadId);
+  }
+
+  listObjects(): AsyncIterable<StoredObjectInfo> {
+    return this.inner.listObjects();
+  }
+
+  // Moves the sealed bytes untouched; object keys are derived from the storage key,
+  // so the content only decrypts again once moved back, or when it was quarantined
+  async moveObject(fromKey: string, toKey: string): Promise<void> {
+    await this.inner.moveObject(fromKey, toKey);
+  }
+}
+
+async function* skipBytes(source: AsyncIterable<Buffer>, count: number): AsyncGenerator<Buffer> {
+  for await (const chunk of source) {
+    if (count >= chunk.length) {
+      count -= chunk.length;
+      continue;
+    }
+    yield count > 0 ? chunk.subarray(count) : chunk;
+    count = 0;
+  }
+}
+
+export const keyService = new KeyService();
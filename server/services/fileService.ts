@@ -1,7 +1,41 @@
 import { storage } from "../storage";
-import { storageService } from "./s3Service";
+import type { File, FileEncryption, UploadSession } from "@shared/schema";
+import { isNotFound, UPLOAD_URL_EXPIRY_SECONDS, type MultipartCompletion, type PartChecksum } from "./s3Service";
+import { storageService } from "./backendService";
+import { placementService } from "./placementService";
+import { versionService } from "./versionService";
+import { blobService } from "./blobService";
+import { renditionService } from "./renditionService";
+import { jobQueue } from "./jobQueue";
+import { quotaService } from "./quotaService";
+import { searchService } from "./searchService";
 import crypto from "crypto";
 import path from "path";
+import { Transform, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+// S3 multipart limits: parts of 5MB-5GB, at most 10,000 parts per upload
+const MIN_PART_SIZE = 8 * 1024 * 1024;
+const MAX_PART_SIZE = 5 * 1024 * 1024 * 1024;
+const MAX_PARTS = 10000;
+const MAX_UPLOAD_SIZE = 5 * 1024 * 1024 * 1024 * 1024;
+const PART_URL_BATCH_SIZE = 100;
+
+// Completion failures that mean the stored object isn't what the client sent
+const UPLOAD_VERIFICATION_ERRORS = new Set(["Upload size mismatch", "Part checksum mismatch", "Checksum mismatch"]);
+
+// Post-upload processing, run by the job worker
+export const FILE_JOBS = {
+  checksum: "file.checksum",
+  renditions: "file.renditions",
+  index: "file.index",
+} as const;
+
+export interface CompletedPart {
+  ETag: string;
+  PartNumber: number;
+  checksum: string; // hex SHA-256 of the part as the client sent it
+}
 
 export interface FileUploadResult {
   fileId: string;
@@ -10,8 +44,21 @@ export interface FileUploadResult {
 
 export interface UploadInitResponse {
   uploadId: string;
-  presignedUrls: string[];
   fileId: string;
+  partSize: number;
+  partCount: number;
+  urlExpiresIn: number;
+}
+
+export interface PartUrl {
+  partNumber: number;
+  url: string;
+  headers?: Record<string, string>; // to be sent along with the part
+}
+
+export interface UploadPlan {
+  partSize: number;
+  partCount: number;
 }
 
 export class FileService {
@@ -30,6 +77,22 @@ export class FileService {
     return crypto.createHash('sha256').update(buffer).digest('hex');
   }
 
+  planMultipartUpload(size: number): UploadPlan {
+    if (size > MAX_UPLOAD_SIZE) {
+      throw new Error("File too large");
+    }
+
+    // Grow the part size in whole megabytes until the file fits within the part limit
+    const megabyte = 1024 * 1024;
+    const partSize = Math.min(
+      MAX_PART_SIZE,
+      Math.max(MIN_PART_SIZE, Math.ceil(size / MAX_PARTS / megabyte) * megabyte)
+    );
+    const partCount = Math.max(1, Math.ceil(size / partSize));
+
+    return { partSize, partCount };
+  }
+
   getMimeTypeFromExtension(ext: string): string {
     const mimeTypes: Record<string, string> = {
       // Images
@@ -81,29 +144,95 @@ export class FileService {
     return mimeTypes[ext.toLowerCase()] || 'application/octet-stream';
   }
 
+  // Finds the file an upload should become a new version of: the explicit target,
+  // or an existing file with the same name in the destination folder
+  private async findVersionTarget(
+    filename: string,
+    ownerId: string,
+    folderId?: string,
+    targetFileId?: string
+  ): Promise<File | undefined> {
+    if (targetFileId) {
+      const file = await storage.getFileById(targetFileId);
+      if (!file || file.ownerId !== ownerId || file.status !== "active" || file.deletedAt) {
+        throw new Error("File not found");
+      }
+      return file;
+    }
+
+    const ext = path.extname(filename);
+    return await storage.findFileByName(ownerId, folderId || null, path.basename(filename, ext), ext.slice(1));
+  }
+
+  // Uploads go into a live folder of the uploader's own. Encrypted folders only hold
+  // client-side ciphertext, and nothing else may be uploaded into them in the clear.
+  private async checkTargetFolder(folderId: string | undefined, ownerId: string, encryption?: FileEncryption): Promise<void> {
+    const folder = folderId ? await storage.getFolderById(folderId) : undefined;
+
+    if (folderId && (!folder || folder.ownerId !== ownerId || folder.deletedAt)) {
+      throw new Error("Folder not found");
+    }
+
+    if (folder?.encryption && !encryption) {
+      throw new Error("Encrypted folder requires client-side encryption");
+    }
+
+    if (!folder?.encryption && encryption) {
+      throw new Error("Encrypted uploads require an encrypted folder");
+    }
+  }
+
   async initializeUpload(
     filename: string,
     size: number,
     ownerId: string,
-    folderId?: string
+    folderId?: string,
+    targetFileId?: string,
+    encryption?: FileEncryption
   ): Promise<UploadInitResponse> {
+    await this.checkTargetFolder(folderId, ownerId, encryption);
+
+    // The name of an encrypted file is ciphertext, so it can neither match an
+    // existing file nor say anything about the content type
+    if (encryption && targetFileId) {
+      throw new Error("Encrypted files cannot be versioned");
+    }
+    await quotaService.assertCanStore(ownerId, size);
+
     const ext = path.extname(filename);
-    const mime = this.getMimeTypeFromExtension(ext);
     const storageKey = this.generateStorageKey(ownerId, filename);
-
-    // Create file record
-    const file = await storage.createFile({
+    const { partSize, partCount } = this.planMultipartUpload(size);
+    const existing = encryption ? undefined : await this.findVersionTarget(filename, ownerId, folderId, targetFileId);
+    const mime = existing
+      ? existing.mime
+      : encryption ? "application/octet-stream" : this.getMimeTypeFromExtension(ext);
+    await placementService.place(storageKey, { ownerId, folderId, size });
+
+    // New versions keep serving the current content until the upload completes;
+    // fresh files get a placeholder record
+    const file = existing ?? await storage.createFile({
       name: path.basename(filename, ext),
       ext: ext.slice(1), // Remove the dot
       mime,
       size,
       storageKey,
+      status: "pending", // hidden from listings until the upload completes
       ownerId,
       folderId: folderId || null,
+      encryption: encryption ?? null,
     });
 
-    // Create multipart upload
-    const { uploadId, urls } = await storageService.createMultipartUpload(storageKey, mime);
+    // Part URLs are handed out per part as the client gets to it, see refreshPartUrls
+    const { uploadId } = await storageService.createMultipartUpload(storageKey, mime, { partChecksums: true });
+    await storage.createUploadSession({
+      fileId: file.id,
+      uploadId,
+      storageKey,
+      size,
+      partSize,
+      partCount,
+      ownerId,
+    });
 
     // Create audit log
     await storage.createAuditLog({
@@ -111,27 +240,184 @@ export class FileService {
       action: "file_upload_initiated",
       targetType: "file",
       targetId: file.id,
-      meta: { filename, size, storageKey },
+      meta: { filename, size, storageKey, partSize, partCount, newVersion: !!existing, encrypted: !!encryption },
     });
 
     return {
       uploadId,
-      presignedUrls: urls,
       fileId: file.id,
+      partSize,
+      partCount,
+      urlExpiresIn: UPLOAD_URL_EXPIRY_SECONDS,
     };
   }
 
+  // URLs are bound to the checksum of the part, so storage can refuse a part that
+  // arrives damaged
+  async refreshPartUrls(
+    fileId: string,
+    uploadId: string,
+    ownerId: string,
+    parts: PartChecksum[]
+  ): Promise<PartUrl[]> {
+    const session = await this.getPendingUploadSession(fileId, uploadId, ownerId);
+
+    if (
+      parts.length > PART_URL_BATCH_SIZE ||
+      parts.some(({ partNumber }) => partNumber < 1 || partNumber > session.partCount)
+    ) {
+      throw new Error("Invalid part numbers");
+    }
+
+    const targets = await storageService.getMultipartUploadUrls(session.storageKey, uploadId, parts);
+
+    // Clients ask for a URL as each part starts, so this is the session's heartbeat
+    // while parts go straight to storage; the sweeper judges idleness by it
+    await storage.updateUploadSession(session.id, {});
+
+    return parts.map(({ partNumber }, i) => ({ partNumber, ...targets[i] }));
+  }
+
+  private async getPendingUploadSession(
+    fileId: string,
+    uploadId: string,
+    ownerId: string
+  ): Promise<UploadSession> {
+    const session = await storage.getUploadSessionByUploadId(uploadId);
+    if (!session || session.fileId !== fileId || session.status !== "pending") {
+      throw new Error("Upload session not found");
+    }
+
+    if (session.ownerId !== ownerId) {
+      throw new Error("Unauthorized");
+    }
+
+    return session;
+  }
+
+  // Receives a part streamed through the server (used by drivers without presigned URLs),
+  // hashing it on the way so a damaged part is refused and can be sent again
+  async uploadPart(
+    storageKey: string,
+    uploadId: string,
+    partNumber: number,
+    body: Readable,
+    contentLength: number,
+    checksum: string,
+    ownerId: string
+  ): Promise<string> {
+    const session = await storage.getUploadSessionByUploadId(uploadId);
+    if (!session || session.storageKey !== storageKey || session.status !== "pending") {
+      throw new Error("Upload session not found");
+    }
+
+    if (session.ownerId !== ownerId) {
+      throw new Error("Unauthorized");
+    }
+
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > session.partCount) {
+      throw new Error("Invalid part");
+    }
+
+    const expectedLength = Math.min(session.partSize, session.size - (partNumber - 1) * session.partSize);
+    if (contentLength !== expectedLength) {
+      throw new Error("Invalid part");
+    }
+
+    const offset = (partNumber - 1) * session.partSize;
+    const hash = crypto.createHash("sha256");
+    const hashed = new Transform({
+      transform(chunk, _encoding, callback) {
+        hash.update(chunk);
+        callback(null, chunk);
+      },
+    });
+
+    let etag: string;
+    try {
+      [etag] = await Promise.all([
+        storageService.uploadPart(storageKey, uploadId, partNumber, hashed, contentLength, offset),
+        pipeline(body, hashed),
+      ]);
+    } catch (error) {
+      hashed.destroy(); // releases the request if the driver gave up early
+      throw error;
+    }
+
+    // The stored part is replaced when the client sends it again
+    if (hash.digest("hex") !== checksum.toLowerCase()) {
+      throw new Error("Part checksum mismatch");
+    }
+
+    await storage.updateUploadSession(session.id, {});
+    return etag;
+  }
+
   async completeUpload(
     fileId: string,
     uploadId: string,
-    parts: { ETag: string; PartNumber: number }[]
+    ownerId: string,
+    parts: CompletedPart[],
+    expectedChecksum?: string
   ): Promise<FileUploadResult> {
+    const session = await this.getPendingUploadSession(fileId, uploadId, ownerId);
     const file = await storage.getFileById(fileId);
     if (!file) {
       throw new Error("File not found");
     }
 
-    await storageService.completeMultipartUpload(file.storageKey, uploadId, parts);
+    const partNumbers = new Set(parts.map((part) => part.PartNumber));
+    if (
+      partNumbers.size !== session.partCount ||
+      parts.some((part) => part.PartNumber < 1 || part.PartNumber > session.partCount)
+    ) {
+      throw new Error("Invalid part list");
+    }
+
+    // The session, not the file record, describes this upload: for a new version
+    // the file still points at the previous content
+    const completion = await storageService.completeMultipartUpload(session.storageKey, uploadId, parts);
+
+    let checksum: string | null;
+    try {
+      checksum = await this.verifyUpload(session, parts, completion, expectedChecksum);
+    } catch (error) {
+      if (UPLOAD_VERIFICATION_ERRORS.has((error as Error).message)) {
+        await this.abortUploadSession(session);
+        try {
+          await storageService.deleteFile(session.storageKey);
+        } catch (deleteError) {
+          console.error("Failed to delete mismatched upload from storage:", deleteError);
+        }
+      }
+      throw error;
+    }
+
+    await storage.updateUploadSession(session.id, { status: "completed", etag: completion.etag ?? null });
+
+    // Content with no checksum yet can't be matched against stored blobs; the checksum
+    // job registers it once the object is hashed
+    const storageKey = checksum
+      ? await blobService.register(checksum, session.storageKey, session.size)
+      : session.storageKey;
+
+    if (file.status === "pending") {
+      const activated = await storage.updateFile(file.id, {
+        status: "active",
+        storageKey,
+        checksum,
+      });
+      await versionService.ensureHistory(activated!);
+    } else {
+      await versionService.addVersion(file, {
+        storageKey,
+        mime: file.mime,
+        size: session.size,
+        checksum,
+      }, ownerId);
+    }
+
+    await this.enqueuePostUpload(storageKey, { mime: file.mime, ext: file.ext, size: session.size, encryption: file.encryption }, checksum ?? undefined);
 
     // Create audit log
     await storage.createAuditLog({
@@ -139,12 +425,12 @@ export class FileService {
       action: "file_uploaded",
       targetType: "file",
       targetId: file.id,
-      meta: { storageKey: file.storageKey },
+      meta: { storageKey, etag: completion.etag, deduplicated: storageKey !== session.storageKey },
     });
 
     return {
       fileId: file.id,
-      storageKey: file.storageKey,
+      storageKey,
     };
   }
 
@@ -154,13 +440,31 @@ export class FileService {
     ownerId: string,
     folderId?: string
   ): Promise<FileUploadResult> {
+    await this.checkTargetFolder(folderId, ownerId);
+    await quotaService.assertCanStore(ownerId, buffer.length);
+
     const ext = path.extname(filename);
-    const mime = this.getMimeTypeFromExtension(ext);
-    const storageKey = this.generateStorageKey(ownerId, filename);
     const checksum = this.calculateChecksum(buffer);
-
-    // Upload to storage
-    await storageService.uploadFile(storageKey, buffer, mime);
+    const existing = await this.findVersionTarget(filename, ownerId, folderId);
+    const mime = existing ? existing.mime : this.getMimeTypeFromExtension(ext);
+
+    // Upload to storage unless identical content is already stored
+    let storageKey = await blobService.reuse(checksum);
+    if (!storageKey) {
+      storageKey = this.generateStorageKey(ownerId, filename);
+      await placementService.place(storageKey, { ownerId, folderId, size: buffer.length });
+      await storageService.uploadFile(storageKey, buffer, mime);
+      storageKey = await blobService.register(checksum, storageKey, buffer.length);
+    }
+    await this.enqueuePostUpload(storageKey, { mime, ext: ext.slice(1), size: buffer.length, encryption: null }, checksum);
+
+    if (existing) {
+      await versionService.addVersion(existing, { storageKey, mime, size: buffer.length, checksum }, ownerId);
+      return {
+        fileId: existing.id,
+        storageKey,
+      };
+    }
 
     // Create file record
     const file = await storage.createFile({
@@ -173,6 +477,7 @@ export class FileService {
       ownerId,
       folderId: folderId || null,
     });
+    await versionService.ensureHistory(file);
 
     // Create audit log
     await storage.createAuditLog({
@@ -189,13 +494,172 @@ export class FileService {
     };
   }
 
-  async getDownloadUrl(fileId: string): Promise<string> {
+  // Checks the assembled object against what the client says it sent. Parts are
+  // normally checked as they arrive, so the object is only read back when the driver
+  // couldn't do that, or to check a whole-object checksum it can't compute. Returns
+  // null when the object's checksum is left to the checksum job.
+  private async verifyUpload(
+    session: UploadSession,
+    parts: CompletedPart[],
+    completion: MultipartCompletion,
+    expectedChecksum?: string
+  ): Promise<string | null> {
+    if (completion.size !== undefined && completion.size !== session.size) {
+      throw new Error("Upload size mismatch");
+    }
+
+    let checksum = completion.checksum ?? null;
+
+    if (!completion.partsVerified || (expectedChecksum && !checksum)) {
+      const hashed = await this.hashStoredUpload(session);
+      if (hashed.size !== session.size) {
+        throw new Error("Upload size mismatch");
+      }
+      for (const part of parts) {
+        if (hashed.partChecksums[part.PartNumber - 1] !== part.checksum.toLowerCase()) {
+          throw new Error("Part checksum mismatch");
+        }
+      }
+      checksum = hashed.checksum;
+    }
+
+    if (expectedChecksum && expectedChecksum.toLowerCase() !== checksum) {
+      throw new Error("Checksum mismatch");
+    }
+    return checksum;
+  }
+
+  // Hashes the whole object and each partSize window of it in a single read
+  private async hashStoredUpload(
+    session: UploadSession
+  ): Promise<{ checksum: string; size: number; partChecksums: string[] }> {
+    const stream = await storageService.getFileStream(session.storageKey);
+    const whole = crypto.createHash("sha256");
+    const partChecksums: string[] = [];
+    let part = crypto.createHash("sha256");
+    let partBytes = 0;
+    let size = 0;
+
+    for await (const chunk of stream) {
+      let data = chunk as Buffer;
+      whole.update(data);
+      size += data.length;
+
+      while (data.length > 0) {
+        const take = Math.min(data.length, session.partSize - partBytes);
+        part.update(data.subarray(0, take));
+        partBytes += take;
+        data = data.subarray(take);
+
+        if (partBytes === session.partSize) {
+          partChecksums.push(part.digest("hex"));
+          part = crypto.createHash("sha256");
+          partBytes = 0;
+        }
+      }
+    }
+    if (partBytes > 0) {
+      partChecksums.push(part.digest("hex"));
+    }
+
+    return { checksum: whole.digest("hex"), size, partChecksums };
+  }
+
+  // Work that doesn't need to hold up the upload request
+  private async enqueuePostUpload(
+    storageKey: string,
+    content: Pick<File, "mime" | "ext" | "size" | "encryption">,
+    checksum?: string
+  ): Promise<void> {
+    if (!checksum) {
+      await jobQueue.enqueue(FILE_JOBS.checksum, { storageKey });
+    }
+    if (renditionService.canRender(content)) {
+      await jobQueue.enqueue(FILE_JOBS.renditions, { storageKey });
+    }
+    if (searchService.canIndex(content)) {
+      await jobQueue.enqueue(FILE_JOBS.index, { storageKey, mime: content.mime, ext: content.ext });
+    }
+  }
+
+  // Fills in the checksum of content stored before uploads were verified, or uploaded
+  // to a driver that can't hash the whole object, and makes it shareable as a blob
+  async backfillChecksum(storageKey: string): Promise<void> {
+    let stream;
+    try {
+      stream = await storageService.getFileStream(storageKey);
+    } catch (error) {
+      if (isNotFound(error)) return; // deleted in the meantime
+      throw error;
+    }
+
+    const hash = crypto.createHash("sha256");
+    let size = 0;
+    for await (const chunk of stream) {
+      hash.update(chunk);
+      size += chunk.length;
+    }
+
+    const checksum = hash.digest("hex");
+    await storage.setChecksumForStorageKey(storageKey, checksum);
+    await blobService.adopt(checksum, storageKey, size);
+  }
+
+  async abortUpload(fileId: string, uploadId: string, ownerId: string): Promise<void> {
+    const session = await this.getPendingUploadSession(fileId, uploadId, ownerId);
+    await this.abortUploadSession(session);
+  }
+
+  // Aborts abandoned uploads that have seen no activity since the cutoff
+  async sweepStaleUploads(maxIdleMs: number): Promise<number> {
+    const staleSessions = await storage.getStaleUploadSessions(new Date(Date.now() - maxIdleMs));
+
+    let aborted = 0;
+    for (const session of staleSessions) {
+      try {
+        await this.abortUploadSession(session);
+        aborted++;
+      } catch (error) {
+        console.error(`Failed to abort stale upload session ${session.id}:`, error);
+      }
+    }
+
+    return aborted;
+  }
+
+  private async abortUploadSession(session: UploadSession): Promise<void> {
+    await storage.updateUploadSession(session.id, { status: "aborted" });
+
+    try {
+      await storageService.abortMultipartUpload(session.storageKey, session.uploadId);
+    } catch (error) {
+      console.error("Failed to abort multipart upload in storage:", error);
+    }
+
+    // Drop the placeholder record that was created when the upload started
+    if (session.fileId) {
+      const file = await storage.getFileById(session.fileId);
+      if (file && file.status === "pending") {
+        await storage.permanentlyDelete(file.id, "file");
+      }
+    }
+
+    await storage.createAuditLog({
+      userId: session.ownerId,
+      action: "file_upload_aborted",
+      targetType: "file",
+      targetId: session.fileId || session.id,
+      meta: { storageKey: session.storageKey, uploadId: session.uploadId },
+    });
+  }
+
+  async getDownloadUrl(fileId: string, disposition?: string): Promise<string> {
     const file = await storage.getFileById(fileId);
     if (!file) {
       throw new Error("File not found");
     }
 
-    return await storageService.getSignedDownloadUrl(file.storageKey);
+    return await storageService.getSignedDownloadUrl(file.storageKey, disposition);
   }
 
   async deleteFile(fileId: string, ownerId: string): Promise<void> {
@@ -221,7 +685,8 @@ export class FileService {
     });
   }
 
-  async permanentlyDeleteFile(fileId: string, ownerId: string): Promise<void> {
+  // reason is recorded in the audit log when the deletion wasn't the user's own doing
+  async permanentlyDeleteFile(fileId: string, ownerId: string, reason?: "expired"): Promise<void> {
     const file = await storage.getFileById(fileId);
     if (!file) {
       throw new Error("File not found");
@@ -231,11 +696,10 @@ export class FileService {
       throw new Error("Unauthorized");
     }
 
-    // Delete from storage
-    try {
-      await storageService.deleteFile(file.storageKey);
-    } catch (error) {
-      console.error("Failed to delete file from storage:", error);
+    // Release every stored version; shared content survives until its last reference goes
+    const storageKeys = await versionService.getStorageReferences(file);
+    for (const storageKey of storageKeys) {
+      await blobService.release(storageKey);
     }
 
     // Permanently delete from database
@@ -247,7 +711,7 @@ export class FileService {
       action: "file_permanently_deleted",
       targetType: "file",
       targetId: fileId,
-      meta: { filename: file.name, storageKey: file.storageKey },
+      meta: { filename: file.name, storageKey: file.storageKey, ...(reason ? { reason } : {}) },
     });
   }
 }
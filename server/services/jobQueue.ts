@@ -0,0 +1,154 @@
+import { storage } from "../storage";
+import type { Job } from "@shared/schema";
+import { z } from "zod";
+
+const JOB_CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || "2", 10);
+const JOB_POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || "1000", 10);
+// A running job whose worker hasn't finished it within this long is assumed lost and retried
+const JOB_LOCK_TIMEOUT_MINUTES = parseInt(process.env.JOB_LOCK_TIMEOUT_MINUTES || "15", 10);
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+export type JobHandler<T = unknown> = (payload: T) => Promise<void>;
+
+export interface EnqueueOptions {
+  maxAttempts?: number;
+  delayMs?: number;
+}
+
+export interface JobSummary {
+  counts: Record<string, number>;
+  jobs: Job[];
+}
+
+// Postgres-backed queue for work that shouldn't hold up a request. Handlers throw to
+// have the job retried with exponential backoff; once out of attempts it is dead-lettered.
+export class JobQueue {
+  private handlers = new Map<string, JobHandler>();
+  private active = 0;
+  private polling = false;
+  private started = false;
+  private timer: NodeJS.Timeout | undefined;
+
+  // Payloads are stored as JSON, so each one is checked against the schema before the
+  // handler sees it
+  register<T>(type: string, schema: z.ZodType<T>, handler: JobHandler<T>) {
+    this.handlers.set(type, (payload) => handler(schema.parse(payload)));
+  }
+
+  async enqueue(type: string, payload: unknown, options: EnqueueOptions = {}): Promise<Job> {
+    const job = await storage.createJob({
+      type,
+      payload,
+      maxAttempts: options.maxAttempts,
+      runAt: new Date(Date.now() + (options.delayMs ?? 0)),
+    });
+    // Pick it up straight away when this process is the one running the worker
+    if (this.started) {
+      this.schedule(0);
+    }
+    return job;
+  }
+
+  start() {
+    this.started = true;
+    this.schedule(0);
+  }
+
+  async list(status?: string): Promise<JobSummary> {
+    const [counts, jobs] = await Promise.all([storage.getJobCounts(), storage.getJobs(status)]);
+    return {
+      counts: Object.fromEntries(counts.map(({ status, count }) => [status, count])),
+      jobs,
+    };
+  }
+
+  // Gives a dead job a fresh set of attempts
+  async retry(id: string): Promise<Job> {
+    const job = await storage.getJob(id);
+    if (!job) {
+      throw new Error("Job not found");
+    }
+    if (job.status !== "dead") {
+      throw new Error("Only dead jobs can be retried");
+    }
+
+    const requeued = (await storage.updateJob(id, { status: "queued", attempts: 0, runAt: new Date() }))!;
+    if (this.started) {
+      this.schedule(0);
+    }
+    return requeued;
+  }
+
+  async discard(id: string): Promise<void> {
+    const job = await storage.getJob(id);
+    if (!job) {
+      throw new Error("Job not found");
+    }
+    if (job.status !== "dead") {
+      throw new Error("Only dead jobs can be discarded");
+    }
+    await storage.deleteJob(id);
+  }
+
+  private schedule(delayMs: number) {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => void this.poll(), delayMs);
+    this.timer.unref();
+  }
+
+  private async poll() {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const staleBefore = new Date(Date.now() - JOB_LOCK_TIMEOUT_MINUTES * 60 * 1000);
+      while (this.active < JOB_CONCURRENCY) {
+        const job = await storage.claimJob(Array.from(this.handlers.keys()), staleBefore);
+        if (!job) break;
+
+        this.active++;
+        void this.run(job).finally(() => {
+          this.active--;
+          this.schedule(0);
+        });
+      }
+    } catch (error) {
+      console.error("Job queue poll failed:", error);
+    } finally {
+      this.polling = false;
+    }
+
+    this.schedule(JOB_POLL_INTERVAL_MS);
+  }
+
+  private async run(job: Job) {
+    try {
+      await this.handlers.get(job.type)!(job.payload);
+      await storage.deleteJob(job.id);
+    } catch (error) {
+      const lastError = (error as Error).message;
+      console.error(`Job ${job.type} ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, error);
+
+      try {
+        // A malformed payload won't parse any better on a later attempt
+        if (job.attempts >= job.maxAttempts || error instanceof z.ZodError) {
+          await storage.updateJob(job.id, { status: "dead", lockedAt: null, lastError });
+        } else {
+          const backoff = Math.min(BACKOFF_BASE_MS * 2 ** (job.attempts - 1), BACKOFF_MAX_MS);
+          await storage.updateJob(job.id, {
+            status: "queued",
+            lockedAt: null,
+            lastError,
+            runAt: new Date(Date.now() + backoff),
+          });
+        }
+      } catch (updateError) {
+        // The lock times out and the job is retried anyway
+        console.error(`Failed to record failure of job ${job.id}:`, updateError);
+      }
+    }
+  }
+}
+
+export const jobQueue = new JobQueue();
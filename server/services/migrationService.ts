@@ -0,0 +1,154 @@
+import { storage, type StoredObject } from "../storage";
+import type { StorageMigration, StorageMigrationObject } from "@shared/schema";
+import { createStorageService, type StorageDriverName, type StorageService } from "./s3Service";
+import { fileService } from "./fileService";
+import { createHash, type Hash } from "crypto";
+import { Transform, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+const DEFAULT_CONCURRENCY = 4;
+
+export interface MigrationOptions {
+  concurrency?: number;
+  onProgress?: (migration: StorageMigration, object: StorageMigrationObject) => void;
+}
+
+function hashing(hash: Hash): Transform {
+  return new Transform({
+    transform(chunk, _encoding, callback) {
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+}
+
+async function hashStream(stream: Readable): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of stream) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+// Copies every stored object from one driver to another. Progress is kept per object,
+// so an interrupted run picks up where it stopped, and running it again after new
+// uploads copies just those.
+export class StorageMigrationService {
+  async migrate(
+    sourceDriver: StorageDriverName,
+    targetDriver: StorageDriverName,
+    options: MigrationOptions = {}
+  ): Promise<StorageMigration> {
+    if (sourceDriver === targetDriver) {
+      throw new Error("Source and target drivers must differ");
+    }
+
+    const source = createStorageService(sourceDriver);
+    const target = createStorageService(targetDriver);
+
+    const existing = await storage.getLatestStorageMigration(sourceDriver, targetDriver);
+    const migration = existing
+      ? (await storage.updateStorageMigration(existing.id, { status: "running", completedAt: null }))!
+      : await storage.createStorageMigration({ sourceDriver, targetDriver });
+
+    // Pick up objects stored since the last run; ones already copied are left alone
+    await storage.addStorageMigrationObjects(migration.id, await storage.getStoredObjects());
+    let progress = (await storage.refreshStorageMigrationCounts(migration.id))!;
+
+    const queue = await storage.getUnfinishedStorageMigrationObjects(migration.id);
+    const worker = async () => {
+      while (queue.length > 0) {
+        const object = queue.shift()!;
+        try {
+          await this.copyObject(object, source, target);
+          await storage.updateStorageMigrationObject(object.id, { status: "copied", error: null });
+          object.status = "copied";
+        } catch (error) {
+          await storage.updateStorageMigrationObject(object.id, {
+            status: "failed",
+            error: (error as Error).message,
+          });
+          object.status = "failed";
+        }
+
+        progress = (await storage.refreshStorageMigrationCounts(migration.id))!;
+        options.onProgress?.(progress, object);
+      }
+    };
+
+    const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+
+    const failed = progress.failedObjects > 0;
+    return (await storage.updateStorageMigration(migration.id, {
+      status: failed ? "failed" : "completed",
+      completedAt: failed ? null : new Date(),
+    }))!;
+  }
+
+  async listMigrations(): Promise<StorageMigration[]> {
+    return await storage.getStorageMigrations();
+  }
+
+  // Streams the object across part by part, then reads the copy back to verify it.
+  // Returns the checksum of the content; the copy may go under a different key.
+  async copyObject(
+    object: StoredObject,
+    source: StorageService,
+    target: StorageService,
+    targetKey = object.storageKey
+  ): Promise<string> {
+    const hash = createHash("sha256");
+
+    if (object.size === 0) {
+      await target.uploadFile(targetKey, Buffer.alloc(0), object.mime);
+    } else {
+      const { partSize, partCount } = fileService.planMultipartUpload(object.size);
+      const { uploadId } = await target.createMultipartUpload(targetKey, object.mime);
+
+      try {
+        const parts: { ETag: string; PartNumber: number }[] = [];
+        for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+          const start = (partNumber - 1) * partSize;
+          const end = Math.min(start + partSize, object.size) - 1;
+
+          // Parts go in order, so hashing them as they pass gives the checksum of the whole object
+          const body = hashing(hash);
+          const reading = pipeline(await source.getFileStream(object.storageKey, { start, end }), body);
+          try {
+            const [etag] = await Promise.all([
+              target.uploadPart(targetKey, uploadId, partNumber, body, end - start + 1, start),
+              reading,
+            ]);
+            parts.push({ ETag: etag, PartNumber: partNumber });
+          } catch (error) {
+            body.destroy(); // releases the source stream if the upload gave up early
+            throw error;
+          }
+        }
+
+        await target.completeMultipartUpload(targetKey, uploadId, parts);
+      } catch (error) {
+        try {
+          await target.abortMultipartUpload(targetKey, uploadId);
+        } catch (abortError) {
+          console.error("Failed to abort migration upload:", abortError);
+        }
+        throw error;
+      }
+    }
+
+    const sourceChecksum = hash.digest("hex");
+    if (object.checksum && sourceChecksum !== object.checksum) {
+      throw new Error("Source checksum mismatch");
+    }
+
+    const targetChecksum = await hashStream(await target.getFileStream(targetKey));
+    if (targetChecksum !== sourceChecksum) {
+      throw new Error("Target checksum mismatch");
+    }
+    return sourceChecksum;
+  }
+}
+
+export const storageMigrationService = new StorageMigrationService();
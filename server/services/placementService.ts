@@ -0,0 +1,82 @@
+import { storage } from "../storage";
+import type { InsertPlacementRule, PlacementRule } from "@shared/schema";
+import { storageService } from "./backendService";
+
+export interface PlacementTarget {
+  ownerId: string;
+  folderId?: string | null;
+  size: number;
+}
+
+// Picks the storage backend for new content from the admin-defined placement rules
+export class PlacementService {
+  async chooseBackend(target: PlacementTarget): Promise<string> {
+    const rules = await storage.getPlacementRules();
+    if (rules.length === 0) {
+      return storageService.defaultBackend;
+    }
+
+    const folderIds = rules.some((rule) => rule.folderId)
+      ? await this.getFolderAncestry(target)
+      : [];
+
+    const match = rules.find((rule) =>
+      (!rule.userId || rule.userId === target.ownerId) &&
+      (!rule.folderId || folderIds.includes(rule.folderId)) &&
+      (rule.minSize == null || target.size >= rule.minSize) &&
+      (rule.maxSize == null || target.size <= rule.maxSize)
+    );
+
+    // A rule left pointing at a backend that was since removed from the config is skipped
+    return match && storageService.has(match.backend) ? match.backend : storageService.defaultBackend;
+  }
+
+  // Records where a new object goes; must happen before anything is written under the key
+  async place(storageKey: string, target: PlacementTarget): Promise<string> {
+    const backend = await this.chooseBackend(target);
+    await storage.setObjectBackend(storageKey, backend);
+    return backend;
+  }
+
+  async listRules(): Promise<PlacementRule[]> {
+    return await storage.getPlacementRules();
+  }
+
+  async createRule(rule: InsertPlacementRule): Promise<PlacementRule> {
+    if (!storageService.has(rule.backend)) {
+      throw new Error("Unknown storage backend");
+    }
+
+    if (rule.minSize != null && rule.maxSize != null && rule.minSize > rule.maxSize) {
+      throw new Error("Invalid size range");
+    }
+
+    if (rule.userId && !(await storage.getUser(rule.userId))) {
+      throw new Error("User not found");
+    }
+
+    if (rule.folderId && !(await storage.getFolderById(rule.folderId))) {
+      throw new Error("Folder not found");
+    }
+
+    return await storage.createPlacementRule(rule);
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    const rule = await storage.deletePlacementRule(id);
+    if (!rule) {
+      throw new Error("Placement rule not found");
+    }
+  }
+
+  // The folder and every folder above it
+  private async getFolderAncestry(target: PlacementTarget): Promise<string[]> {
+    if (!target.folderId) {
+      return [];
+    }
+    const ancestors = await storage.getFolderAncestors(target.folderId, target.ownerId);
+    return ancestors.map((folder) => folder.id);
+  }
+}
+
+export const placementService = new PlacementService();
@@ -0,0 +1,96 @@
+import { storage } from "../storage";
+import { quotaSettingsSchema, type QuotaSettings, type User } from "@shared/schema";
+
+const QUOTA_SETTINGS_KEY = "quota";
+
+// Used until an admin saves settings of their own
+const DEFAULT_QUOTA_SETTINGS: QuotaSettings = {
+  defaultQuota: parseInt(process.env.STORAGE_DEFAULT_QUOTA_GB || "5", 10) * 1024 * 1024 * 1024,
+  includeTrash: true,
+  includeVersions: true,
+  warnThresholds: [80, 95],
+};
+
+export interface QuotaUsage {
+  totalSize: number;
+  totalFiles: number;
+  versionSize: number;
+  pendingSize: number;
+  quota: number;
+  percentage: number;
+  warningThreshold: number | null; // highest warn threshold reached, if any
+}
+
+export class QuotaService {
+  async getSettings(): Promise<QuotaSettings> {
+    const saved = quotaSettingsSchema.partial().safeParse(await storage.getSetting(QUOTA_SETTINGS_KEY));
+    return { ...DEFAULT_QUOTA_SETTINGS, ...(saved.success ? saved.data : {}) };
+  }
+
+  async updateSettings(updates: Partial<QuotaSettings>, adminId: string): Promise<QuotaSettings> {
+    const updated = { ...(await this.getSettings()), ...updates };
+    await storage.setSetting(QUOTA_SETTINGS_KEY, updated);
+
+    await storage.createAuditLog({
+      userId: adminId,
+      action: "quota_settings_updated",
+      targetType: "settings",
+      targetId: QUOTA_SETTINGS_KEY,
+      meta: updates,
+    });
+
+    return updated;
+  }
+
+  // A null quota puts the user back on the default
+  async setUserQuota(userId: string, quota: number | null, adminId: string): Promise<User> {
+    const user = await storage.updateUser(userId, { quota });
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    await storage.createAuditLog({
+      userId: adminId,
+      action: "user_quota_updated",
+      targetType: "user",
+      targetId: userId,
+      meta: { quota },
+    });
+
+    return user;
+  }
+
+  async getUsage(userId: string): Promise<QuotaUsage> {
+    const [user, settings] = await Promise.all([storage.getUser(userId), this.getSettings()]);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const usage = await storage.getStorageUsage(userId, settings);
+    const quota = user.quota ?? settings.defaultQuota;
+    const totalSize = usage.fileBytes + usage.versionBytes + usage.pendingBytes;
+    const percentage = quota > 0 ? Math.round((totalSize / quota) * 100) : 100;
+    const reached = settings.warnThresholds.filter((threshold) => percentage >= threshold);
+
+    return {
+      totalSize,
+      totalFiles: usage.fileCount,
+      versionSize: usage.versionBytes,
+      pendingSize: usage.pendingBytes,
+      quota,
+      percentage,
+      warningThreshold: reached.length > 0 ? Math.max(...reached) : null,
+    };
+  }
+
+  // Called before accepting new content; the check and the upload aren't atomic, so
+  // two racing uploads can overshoot by at most one of them
+  async assertCanStore(userId: string, bytes: number): Promise<void> {
+    const usage = await this.getUsage(userId);
+    if (usage.totalSize + bytes > usage.quota) {
+      throw new Error("Storage quota exceeded");
+    }
+  }
+}
+
+export const quotaService = new QuotaService();
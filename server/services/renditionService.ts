@@ -0,0 +1,124 @@
+import { storage } from "../storage";
+import type { File, Rendition } from "@shared/schema";
+import { storageService } from "./backendService";
+import { isNotFound } from "./s3Service";
+import sharp from "sharp";
+import type { Readable } from "stream";
+
+export const RENDITION_KINDS = ["thumbnail", "preview"] as const;
+export type RenditionKind = typeof RENDITION_KINDS[number];
+
+const RENDITION_SPECS: Record<RenditionKind, { size: number; fit: "cover" | "inside" }> = {
+  thumbnail: { size: 256, fit: "cover" }, // square crop for grid tiles
+  preview: { size: 1280, fit: "inside" }, // whole image, for the preview dialog
+};
+
+// The image types FileService.getMimeTypeFromExtension knows about
+const RENDERABLE_MIME_TYPES = new Set(["image/jpeg", "image/png", "image/gif", "image/webp", "image/svg+xml"]);
+// Originals are decoded in memory, so very large ones are left without renditions
+const MAX_SOURCE_BYTES = parseInt(process.env.RENDITION_MAX_SOURCE_MB || "50", 10) * 1024 * 1024;
+
+// Renditions are stored next to the original, on the same backend, under a derived key
+function renditionKey(sourceKey: string, kind: RenditionKind): string {
+  return `${sourceKey}.${kind}.webp`;
+}
+
+export class RenditionService {
+  // Renders in flight per original, so an upload and a first view don't both render it
+  private inFlight = new Map<string, Promise<Rendition[]>>();
+
+  canRender(file: Pick<File, "mime" | "size" | "encryption">): boolean {
+    // End-to-end encrypted content is ciphertext to the server
+    return !file.encryption && RENDERABLE_MIME_TYPES.has(file.mime) && file.size <= MAX_SOURCE_BYTES;
+  }
+
+  // Run from the job queue once new content is stored, which retries it on failure
+  async generate(sourceKey: string): Promise<void> {
+    try {
+      await this.render(sourceKey);
+    } catch (error) {
+      // Deleted before its turn came; nothing left to render
+      if (!isNotFound(error)) throw error;
+    }
+  }
+
+  // Files stored before renditions existed are rendered on first request
+  async getRendition(file: File, kind: RenditionKind): Promise<Rendition | undefined> {
+    if (!this.canRender(file)) {
+      return undefined;
+    }
+
+    const existing = await storage.getRendition(file.storageKey, kind);
+    if (existing) {
+      return existing;
+    }
+
+    try {
+      const rendered = await this.render(file.storageKey);
+      return rendered.find((rendition) => rendition.kind === kind);
+    } catch (error) {
+      console.error(`Failed to render ${file.storageKey}:`, error);
+      return undefined;
+    }
+  }
+
+  async getRenditionStream(rendition: Rendition): Promise<Readable> {
+    return await storageService.getFileStream(rendition.storageKey);
+  }
+
+  // Removes the renditions of an original that is being deleted from storage
+  async deleteRenditions(sourceKey: string): Promise<void> {
+    const renditions = await storage.getRenditionsBySource(sourceKey);
+    for (const rendition of renditions) {
+      try {
+        await storageService.deleteFile(rendition.storageKey);
+      } catch (error) {
+        console.error("Failed to delete rendition from storage:", error);
+      }
+    }
+    await storage.deleteRenditionsBySource(sourceKey);
+  }
+
+  private render(sourceKey: string): Promise<Rendition[]> {
+    let rendering = this.inFlight.get(sourceKey);
+    if (!rendering) {
+      rendering = this.renderAll(sourceKey).finally(() => this.inFlight.delete(sourceKey));
+      this.inFlight.set(sourceKey, rendering);
+    }
+    return rendering;
+  }
+
+  private async renderAll(sourceKey: string): Promise<Rendition[]> {
+    const source = await storageService.getFile(sourceKey);
+    const backend = await storageService.locate(sourceKey);
+
+    const rendered: Rendition[] = [];
+    for (const kind of RENDITION_KINDS) {
+      const { size, fit } = RENDITION_SPECS[kind];
+      // rotate() applies EXIF orientation; animated images use their first frame
+      const { data, info } = await sharp(source)
+        .rotate()
+        .resize(size, size, { fit, withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer({ resolveWithObject: true });
+
+      const storageKey = renditionKey(sourceKey, kind);
+      await storage.setObjectBackend(storageKey, backend);
+      await storageService.uploadFile(storageKey, data, "image/webp");
+
+      rendered.push(await storage.upsertRendition({
+        sourceKey,
+        kind,
+        storageKey,
+        mime: "image/webp",
+        width: info.width,
+        height: info.height,
+        size: data.length,
+      }));
+    }
+
+    return rendered;
+  }
+}
+
+export const renditionService = new RenditionService();
@@ -1,34 +1,118 @@
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, CreateMultipartUploadCommand, UploadPartCommand, CompleteMultipartUploadCommand, AbortMultipartUploadCommand } from "@aws-sdk/client-s3";
+import { S3Client, PutObjectCommand, GetObjectCommand, HeadObjectCommand, DeleteObjectCommand, CopyObjectCommand, ListObjectsV2Command, CreateMultipartUploadCommand, UploadPartCommand, CompleteMultipartUploadCommand, AbortMultipartUploadCommand } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import fs from "fs/promises";
+import { createReadStream, createWriteStream } from "fs";
+import { once } from "events";
+import { pipeline } from "stream/promises";
+import type { Readable } from "stream";
 import path from "path";
-import { randomUUID } from "crypto";
+import { randomUUID, createHash } from "crypto";
+import { EncryptedStorageService, keyService } from "./encryptionService";
+
+// How long presigned part URLs stay valid; clients refresh them via /api/upload/parts
+export const UPLOAD_URL_EXPIRY_SECONDS = parseInt(process.env.UPLOAD_URL_EXPIRY_SECONDS || "3600", 10);
+// S3-compatible stores without SHA-256 part checksums fall back to a read-back on completion
+const S3_PART_CHECKSUMS = process.env.S3_PART_CHECKSUMS !== "false";
+
+export interface MultipartOptions {
+  partChecksums?: boolean; // every part will come with its SHA-256, for the driver to check
+}
+
+export interface PartChecksum {
+  partNumber: number;
+  checksum: string; // hex SHA-256 of the part as the client will send it
+}
+
+export interface PartUploadTarget {
+  url: string;
+  headers?: Record<string, string>; // to be sent along with the part
+}
+
+export interface UploadedPart {
+  ETag: string;
+  PartNumber: number;
+  checksum?: string; // hex SHA-256, when the upload was created with partChecksums
+}
+
+export interface MultipartCompletion {
+  checksum?: string; // SHA-256 of the assembled object, when the driver can compute it
+  size?: number;
+  etag?: string; // as reported by the storage service, when it has one
+  partsVerified?: boolean; // every part was checked against its checksum on the way in
+}
+
+// Objects set aside by the integrity scrubber live under this prefix and are never listed
+export const QUARANTINE_PREFIX = ".quarantine/";
+
+// Quarantined objects keep their original key under a dated folder, e.g.
+// .quarantine/2024-05-01/<original key>
+export function quarantineKey(storageKey: string, date: Date): string {
+  return `${QUARANTINE_PREFIX}${date.toISOString().slice(0, 10)}/${storageKey}`;
+}
+
+// The key an object had before it was quarantined, or the key itself otherwise
+export function originalKey(storageKey: string): string {
+  if (!storageKey.startsWith(QUARANTINE_PREFIX)) {
+    return storageKey;
+  }
+  return storageKey.slice(QUARANTINE_PREFIX.length).split("/").slice(1).join("/");
+}
+
+export interface StoredObjectInfo {
+  key: string;
+  size: number; // bytes as stored, which differs from the content size when encrypted
+  lastModified: Date;
+}
+
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive, as in an HTTP Range header
+}
 
 export interface StorageService {
+  // Whether clients may be redirected to getSignedDownloadUrl instead of streaming through the server
+  readonly supportsPresignedDownloads: boolean;
   uploadFile(key: string, buffer: Buffer, contentType: string): Promise<void>;
   getFile(key: string): Promise<Buffer>;
+  getFileStream(key: string, range?: ByteRange): Promise<Readable>;
   deleteFile(key: string): Promise<void>;
   getSignedUploadUrl(key: string, contentType: string): Promise<string>;
-  getSignedDownloadUrl(key: string): Promise<string>;
-  createMultipartUpload(key: string, contentType: string): Promise<{ uploadId: string; urls: string[] }>;
-  completeMultipartUpload(key: string, uploadId: string, parts: { ETag: string; PartNumber: number }[]): Promise<void>;
+  getSignedDownloadUrl(key: string, disposition?: string): Promise<string>;
+  createMultipartUpload(key: string, contentType: string, options?: MultipartOptions): Promise<{ uploadId: string }>;
+  getMultipartUploadUrls(key: string, uploadId: string, parts: PartChecksum[]): Promise<PartUploadTarget[]>;
+  // offset is where the part starts within the object, for drivers that transform content
+  uploadPart(key: string, uploadId: string, partNumber: number, body: Readable, contentLength: number, offset: number): Promise<string>;
+  completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]): Promise<MultipartCompletion>;
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+  listObjects(): AsyncIterable<StoredObjectInfo>;
+  moveObject(fromKey: string, toKey: string): Promise<void>;
+}
+
+// Where a driver keeps its objects; anything left out comes from the S3_* and
+// LOCAL_STORAGE_PATH environment variables
+export interface DriverOptions {
+  path?: string;
+  bucket?: string;
+  region?: string;
+  endpoint?: string;
 }
 
 class S3StorageService implements StorageService {
+  readonly supportsPresignedDownloads = true;
   private client: S3Client;
   private bucket: string;
 
-  constructor() {
+  constructor(options: DriverOptions = {}) {
     this.client = new S3Client({
-      endpoint: process.env.S3_ENDPOINT,
-      region: process.env.S3_REGION || "us-east-1",
+      endpoint: options.endpoint ?? process.env.S3_ENDPOINT,
+      region: options.region ?? (process.env.S3_REGION || "us-east-1"),
       credentials: {
         accessKeyId: process.env.S3_ACCESS_KEY_ID!,
         secretAccessKey: process.env.S3_SECRET_ACCESS_KEY!,
       },
       forcePathStyle: true,
     });
-    this.bucket = process.env.S3_BUCKET!;
+    this.bucket = options.bucket ?? process.env.S3_BUCKET!;
   }
 
   async uploadFile(key: string, buffer: Buffer, contentType: string): Promise<void> {
@@ -57,6 +141,16 @@ class S3StorageService implements StorageService {
     return Buffer.concat(chunks);
   }
 
+  async getFileStream(key: string, range?: ByteRange): Promise<Readable> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+    });
+    const response = await this.client.send(command);
+    return response.Body as Readable;
+  }
+
   async deleteFile(key: string): Promise<void> {
     const command = new DeleteObjectCommand({
       Bucket: this.bucket,
@@ -74,61 +168,138 @@ class S3StorageService implements StorageService {
     return getSignedUrl(this.client, command, { expiresIn: 3600 });
   }
 
-  async getSignedDownloadUrl(key: string): Promise<string> {
+  async getSignedDownloadUrl(key: string, disposition?: string): Promise<string> {
     const command = new GetObjectCommand({
       Bucket: this.bucket,
       Key: key,
+      ResponseContentDisposition: disposition,
     });
     return getSignedUrl(this.client, command, { expiresIn: 3600 });
   }
 
-  async createMultipartUpload(key: string, contentType: string): Promise<{ uploadId: string; urls: string[] }> {
+  async createMultipartUpload(key: string, contentType: string, options: MultipartOptions = {}): Promise<{ uploadId: string }> {
     const createCommand = new CreateMultipartUploadCommand({
       Bucket: this.bucket,
       Key: key,
       ContentType: contentType,
+      ChecksumAlgorithm: S3_PART_CHECKSUMS && options.partChecksums ? "SHA256" : undefined,
     });
     
     const { UploadId } = await this.client.send(createCommand);
-    
-    const urls: string[] = [];
-    for (let partNumber = 1; partNumber <= 10; partNumber++) {
+    return { uploadId: UploadId! };
+  }
+
+  // The checksum header is signed, so S3 rejects a part that doesn't match it
+  async getMultipartUploadUrls(key: string, uploadId: string, parts: PartChecksum[]): Promise<PartUploadTarget[]> {
+    return await Promise.all(parts.map(async ({ partNumber, checksum }) => {
+      const checksumHeader = S3_PART_CHECKSUMS ? toBase64(checksum) : undefined;
       const uploadPartCommand = new UploadPartCommand({
         Bucket: this.bucket,
         Key: key,
         PartNumber: partNumber,
-        UploadId,
+        UploadId: uploadId,
+        ChecksumSHA256: checksumHeader,
       });
       
-      const url = await getSignedUrl(this.client, uploadPartCommand, { expiresIn: 3600 });
-      urls.push(url);
-    }
+      const url = await getSignedUrl(this.client, uploadPartCommand, {
+        expiresIn: UPLOAD_URL_EXPIRY_SECONDS,
+        unhoistableHeaders: checksumHeader ? new Set(["x-amz-checksum-sha256"]) : undefined,
+      });
+      return checksumHeader ? { url, headers: { "x-amz-checksum-sha256": checksumHeader } } : { url };
+    }));
+  }
 
-    return { uploadId: UploadId!, urls };
+  async uploadPart(key: string, uploadId: string, partNumber: number, body: Readable, contentLength: number, _offset: number): Promise<string> {
+    const command = new UploadPartCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      Body: body,
+      ContentLength: contentLength,
+    });
+    const { ETag } = await this.client.send(command);
+    return ETag!.replace(/"/g, "");
   }
 
-  async completeMultipartUpload(key: string, uploadId: string, parts: { ETag: string; PartNumber: number }[]): Promise<void> {
+  // S3 checks each part against its checksum once more as it assembles the object.
+  // It can't tell the SHA-256 of the whole object, so that is left to the caller.
+  async completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]): Promise<MultipartCompletion> {
+    const partsVerified = S3_PART_CHECKSUMS && parts.every((part) => part.checksum);
     const command = new CompleteMultipartUploadCommand({
       Bucket: this.bucket,
       Key: key,
       UploadId: uploadId,
-      MultipartUpload: { Parts: parts },
+      MultipartUpload: {
+        Parts: parts.map(({ ETag, PartNumber, checksum }) => ({
+          ETag,
+          PartNumber,
+          ChecksumSHA256: partsVerified ? toBase64(checksum!) : undefined,
+        })),
+      },
+    });
+    await this.client.send(command);
+
+    // The declared size is the client's word; ask S3 what it actually assembled
+    const head = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+    return { size: head.ContentLength, etag: head.ETag?.replace(/"/g, ""), partsVerified };
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    const command = new AbortMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
     });
     await this.client.send(command);
   }
+
+  async *listObjects(): AsyncIterable<StoredObjectInfo> {
+    let continuationToken: string | undefined;
+    do {
+      const command = new ListObjectsV2Command({
+        Bucket: this.bucket,
+        ContinuationToken: continuationToken,
+      });
+      const response = await this.client.send(command);
+
+      for (const object of response.Contents ?? []) {
+        if (!object.Key || object.Key.startsWith(QUARANTINE_PREFIX)) continue;
+        yield { key: object.Key, size: object.Size ?? 0, lastModified: object.LastModified ?? new Date() };
+      }
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+
+  async moveObject(fromKey: string, toKey: string): Promise<void> {
+    const copyCommand = new CopyObjectCommand({
+      Bucket: this.bucket,
+      Key: toKey,
+      CopySource: `${this.bucket}/${fromKey.split("/").map(encodeURIComponent).join("/")}`,
+    });
+    await this.client.send(copyCommand);
+    await this.deleteFile(fromKey);
+  }
 }
 
 class LocalStorageService implements StorageService {
+  readonly supportsPresignedDownloads = false;
   private basePath: string;
 
-  constructor() {
-    this.basePath = process.env.LOCAL_STORAGE_PATH || "/data/storage";
+  constructor(options: DriverOptions = {}) {
+    this.basePath = options.path ?? (process.env.LOCAL_STORAGE_PATH || "/data/storage");
   }
 
   private getFilePath(key: string): string {
     return path.join(this.basePath, key);
   }
 
+  // Parts of in-progress multipart uploads are staged here until completion
+  private getStagingPath(uploadId: string): string {
+    return path.join(this.basePath, ".uploads", uploadId);
+  }
+
   async uploadFile(
     key: string,
     buffer: Buffer,
@@ -145,6 +316,12 @@ class LocalStorageService implements StorageService {
     return await fs.readFile(filePath);
   }
 
+  async getFileStream(key: string, range?: ByteRange): Promise<Readable> {
+    // Opening first surfaces a missing file here instead of as a stream error
+    const handle = await fs.open(this.getFilePath(key), "r");
+    return handle.createReadStream(range ? { start: range.start, end: range.end } : undefined);
+  }
+
   async deleteFile(key: string): Promise<void> {
     const filePath = this.getFilePath(key);
     await fs.unlink(filePath);
@@ -157,31 +334,280 @@ class LocalStorageService implements StorageService {
     return `/api/upload/local/${key}`;
   }
 
-  async getSignedDownloadUrl(key: string): Promise<string> {
+  async getSignedDownloadUrl(key: string, _disposition?: string): Promise<string> {
     return `/api/files/download/${key}`;
   }
 
   async createMultipartUpload(
-    key: string,
+    _key: string,
     _contentType: string,
-  ): Promise<{ uploadId: string; urls: string[] }> {
-    const uploadId = randomUUID();
-    const urls = Array.from({ length: 10 }, (_, i) => 
-      `/api/upload/local/${key}/part/${i + 1}?uploadId=${uploadId}`
-    );
-    return { uploadId, urls };
+    _options?: MultipartOptions,
+  ): Promise<{ uploadId: string }> {
+    return { uploadId: randomUUID() };
+  }
+
+  async getMultipartUploadUrls(
+    key: string,
+    uploadId: string,
+    parts: PartChecksum[],
+  ): Promise<PartUploadTarget[]> {
+    return parts.map(({ partNumber, checksum }) => ({ url: partRouteUrl(key, uploadId, partNumber, checksum) }));
+  }
+
+  async uploadPart(
+    _key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Readable,
+    _contentLength: number,
+    _offset: number,
+  ): Promise<string> {
+    const stagingDir = this.getStagingPath(uploadId);
+    await fs.mkdir(stagingDir, { recursive: true });
+
+    const partPath = path.join(stagingDir, `part-${partNumber}`);
+    const tempPath = `${partPath}.${randomUUID()}.tmp`;
+    const hash = createHash("md5");
+
+    try {
+      await pipeline(
+        body,
+        async function* (source: AsyncIterable<Buffer>) {
+          for await (const chunk of source) {
+            hash.update(chunk);
+            yield chunk;
+          }
+        },
+        createWriteStream(tempPath),
+      );
+      // Rename last so a retried part never leaves a half-written file behind
+      await fs.rename(tempPath, partPath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    // MD5 mirrors the ETag S3 returns for a part
+    return hash.digest("hex");
   }
 
   async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadedPart[],
+  ): Promise<MultipartCompletion> {
+    const stagingDir = this.getStagingPath(uploadId);
+    const filePath = this.getFilePath(key);
+    const tempPath = `${filePath}.${uploadId}.tmp`;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    const output = createWriteStream(tempPath);
+    const fileHash = createHash("sha256");
+    let size = 0;
+
+    try {
+      const ordered = [...parts].sort((a, b) => a.PartNumber - b.PartNumber);
+      for (const part of ordered) {
+        const partHash = createHash("md5");
+        const input = createReadStream(path.join(stagingDir, `part-${part.PartNumber}`));
+
+        for await (const chunk of input) {
+          partHash.update(chunk);
+          fileHash.update(chunk);
+          size += chunk.length;
+          if (!output.write(chunk)) {
+            await once(output, "drain");
+          }
+        }
+
+        if (partHash.digest("hex") !== part.ETag.replace(/"/g, "")) {
+          throw new Error("Part checksum mismatch");
+        }
+      }
+
+      output.end();
+      await once(output, "finish");
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      output.destroy();
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    await fs.rm(stagingDir, { recursive: true, force: true });
+    // Every part came through the part route, which checks it against its checksum
+    return { checksum: fileHash.digest("hex"), size, partsVerified: true };
+  }
+
+  async abortMultipartUpload(
     _key: string,
-    _uploadId: string,
-    _parts: { ETag: string; PartNumber: number }[],
+    uploadId: string,
   ): Promise<void> {
-    // Local storage doesn't need multipart completion
+    await fs.rm(this.getStagingPath(uploadId), { recursive: true, force: true });
+  }
+
+  async *listObjects(): AsyncIterable<StoredObjectInfo> {
+    yield* this.walk(this.basePath);
+  }
+
+  // Skips the staging and quarantine directories and half-written temp files
+  private async *walk(dir: string): AsyncIterable<StoredObjectInfo> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (dir === this.basePath && entry.name.startsWith(".")) continue;
+
+      if (entry.isDirectory()) {
+        yield* this.walk(fullPath);
+      } else if (entry.isFile() && !entry.name.endsWith(".tmp")) {
+        const stats = await fs.stat(fullPath);
+        yield {
+          key: path.relative(this.basePath, fullPath).split(path.sep).join("/"),
+          size: stats.size,
+          lastModified: stats.mtime,
+        };
+      }
+    }
+  }
+
+  async moveObject(fromKey: string, toKey: string): Promise<void> {
+    const targetPath = this.getFilePath(toKey);
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+    await fs.rename(this.getFilePath(fromKey), targetPath);
+  }
+}
+
+// The server's own part route, for drivers whose parts can't go to storage directly.
+// Keys end in the uploaded file's extension, so each segment is encoded.
+export function partRouteUrl(key: string, uploadId: string, partNumber: number, checksum: string): string {
+  const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+  const query = new URLSearchParams({ uploadId, checksum });
+  return `/api/upload/local/${encodedKey}/part/${partNumber}?${query}`;
+}
+
+// S3 takes checksums base64 encoded
+function toBase64(hexChecksum: string): string {
+  return Buffer.from(hexChecksum, "hex").toString("base64");
+}
+
+export function isNotFound(error: unknown): boolean {
+  const err = error as { code?: string; name?: string; $metadata?: { httpStatusCode?: number } };
+  return err?.code === "ENOENT" || err?.name === "NoSuchKey" || err?.$metadata?.httpStatusCode === 404;
+}
+
+// Used while switching drivers: everything is written to the new driver, and reads of
+// objects the migration hasn't copied yet are served from the old one
+class ReadFallbackStorageService implements StorageService {
+  // Presigned URLs can't fall back, so downloads stream through the server meanwhile
+  readonly supportsPresignedDownloads = false;
+
+  constructor(private primary: StorageService, private fallback: StorageService) {}
+
+  uploadFile(key: string, buffer: Buffer, contentType: string): Promise<void> {
+    return this.primary.uploadFile(key, buffer, contentType);
+  }
+
+  async getFile(key: string): Promise<Buffer> {
+    try {
+      return await this.primary.getFile(key);
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+      return await this.fallback.getFile(key);
+    }
+  }
+
+  async getFileStream(key: string, range?: ByteRange): Promise<Readable> {
+    try {
+      return await this.primary.getFileStream(key, range);
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+      return await this.fallback.getFileStream(key, range);
+    }
+  }
+
+  async deleteFile(key: string): Promise<void> {
+    try {
+      await this.primary.deleteFile(key);
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+      await this.fallback.deleteFile(key);
+    }
+  }
+
+  getSignedUploadUrl(key: string, contentType: string): Promise<string> {
+    return this.primary.getSignedUploadUrl(key, contentType);
+  }
+
+  getSignedDownloadUrl(key: string, disposition?: string): Promise<string> {
+    return this.primary.getSignedDownloadUrl(key, disposition);
+  }
+
+  createMultipartUpload(key: string, contentType: string, options?: MultipartOptions): Promise<{ uploadId: string }> {
+    return this.primary.createMultipartUpload(key, contentType, options);
+  }
+
+  getMultipartUploadUrls(key: string, uploadId: string, parts: PartChecksum[]): Promise<PartUploadTarget[]> {
+    return this.primary.getMultipartUploadUrls(key, uploadId, parts);
+  }
+
+  uploadPart(key: string, uploadId: string, partNumber: number, body: Readable, contentLength: number, offset: number): Promise<string> {
+    return this.primary.uploadPart(key, uploadId, partNumber, body, contentLength, offset);
+  }
+
+  completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]): Promise<MultipartCompletion> {
+    return this.primary.completeMultipartUpload(key, uploadId, parts);
+  }
+
+  abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    return this.primary.abortMultipartUpload(key, uploadId);
+  }
+
+  async *listObjects(): AsyncIterable<StoredObjectInfo> {
+    const seen = new Set<string>();
+    for (const driver of [this.primary, this.fallback]) {
+      for await (const object of driver.listObjects()) {
+        if (seen.has(object.key)) continue;
+        seen.add(object.key);
+        yield object;
+      }
+    }
+  }
+
+  async moveObject(fromKey: string, toKey: string): Promise<void> {
+    try {
+      await this.primary.moveObject(fromKey, toKey);
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+      await this.fallback.moveObject(fromKey, toKey);
+    }
   }
 }
 
-export const storageService: StorageService = 
-  process.env.STORAGE_DRIVER === "s3" 
-    ? new S3StorageService()
-    : new LocalStorageService();
+export const STORAGE_DRIVERS = ["local", "s3"] as const;
+export type StorageDriverName = typeof STORAGE_DRIVERS[number];
+
+function createDriver(name: StorageDriverName, options?: DriverOptions): StorageService {
+  return name === "s3" ? new S3StorageService(options) : new LocalStorageService(options);
+}
+
+// With a master key configured, everything is encrypted before it reaches the driver
+export function createStorageService(
+  name: StorageDriverName,
+  fallbackName?: StorageDriverName,
+  options?: DriverOptions
+): StorageService {
+  const driver = fallbackName
+    ? new ReadFallbackStorageService(createDriver(name, options), createDriver(fallbackName))
+    : createDriver(name, options);
+
+  return process.env.STORAGE_ENCRYPTION_KEY
+    ? new EncryptedStorageService(driver, keyService)
+    : driver;
+}
@@ -0,0 +1,174 @@
+import { storage } from "../storage";
+import type { ScrubIssue, ScrubRun } from "@shared/schema";
+import { isNotFound, quarantineKey } from "./s3Service";
+import { storageService } from "./backendService";
+import { createHash } from "crypto";
+
+// Objects younger than this may belong to an upload whose record isn't written yet
+const ORPHAN_GRACE_HOURS = parseInt(process.env.SCRUB_ORPHAN_GRACE_HOURS || "1", 10);
+const MAX_RECORDED_ISSUES = 1000;
+
+export interface ScrubOptions {
+  repair?: boolean; // quarantine orphans and hide files whose content is missing or corrupt
+  verifyChecksums?: boolean; // read back every object with a recorded checksum
+}
+
+// Reads that fail because the stored bytes don't authenticate, as opposed to I/O errors
+function isCorrupt(error: unknown): boolean {
+  const message = (error as Error)?.message ?? "";
+  return message === "Corrupt encrypted object" || message.includes("unable to authenticate data");
+}
+
+// Cross-checks the storage backend against the database: objects nothing references,
+// records whose object is gone, and content that no longer matches its checksum
+export class ScrubService {
+  private running = false;
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  // Creates the run record and scrubs in the background; poll listRuns for the outcome
+  async start(options: ScrubOptions = {}): Promise<ScrubRun> {
+    if (this.running) {
+      throw new Error("Scrub already running");
+    }
+    this.running = true;
+
+    let run: ScrubRun;
+    try {
+      run = await storage.createScrubRun({
+        repair: !!options.repair,
+        verifyChecksums: !!options.verifyChecksums,
+      });
+    } catch (error) {
+      this.running = false;
+      throw error;
+    }
+
+    void this.scrub(run).finally(() => {
+      this.running = false;
+    });
+    return run;
+  }
+
+  async listRuns(): Promise<ScrubRun[]> {
+    return await storage.getScrubRuns();
+  }
+
+  private async scrub(run: ScrubRun): Promise<void> {
+    const issues: ScrubIssue[] = [];
+    const counts = { orphanCount: 0, missingCount: 0, mismatchCount: 0 };
+    const record = (issue: ScrubIssue) => {
+      counts[`${issue.type}Count`]++;
+      if (issues.length < MAX_RECORDED_ISSUES) {
+        issues.push(issue);
+      }
+    };
+
+    try {
+      const referenced = await storage.getReferencedStorageKeys();
+      const graceCutoff = Date.now() - ORPHAN_GRACE_HOURS * 60 * 60 * 1000;
+      const listed = new Set<string>();
+
+      for await (const object of storageService.listObjects()) {
+        listed.add(object.key);
+        if (referenced.has(object.key) || object.lastModified.getTime() > graceCutoff) {
+          continue;
+        }
+
+        const issue: ScrubIssue = { type: "orphan", storageKey: object.key, size: object.size };
+        if (run.repair) {
+          await this.quarantineObject(object.key);
+          issue.action = "quarantined";
+        }
+        record(issue);
+      }
+
+      const objects = await storage.getStoredObjects();
+      for (const object of objects) {
+        const issue = await this.checkObject(object.storageKey, object.checksum, listed.has(object.storageKey), run.verifyChecksums);
+        if (!issue) continue;
+
+        if (run.repair) {
+          await this.quarantineFiles(issue);
+        }
+        record(issue);
+      }
+
+      await storage.updateScrubRun(run.id, {
+        ...counts,
+        status: "completed",
+        objectsScanned: listed.size,
+        rowsScanned: objects.length,
+        issues,
+        completedAt: new Date(),
+      });
+    } catch (error) {
+      console.error("Storage scrub failed:", error);
+      await storage.updateScrubRun(run.id, {
+        ...counts,
+        status: "failed",
+        issues,
+        error: (error as Error).message,
+        completedAt: new Date(),
+      });
+    }
+  }
+
+  private async checkObject(
+    storageKey: string,
+    checksum: string | null,
+    listed: boolean,
+    verifyChecksums: boolean
+  ): Promise<ScrubIssue | null> {
+    // Unlisted objects may have been written after the listing, so look before reporting them
+    if (!listed || (verifyChecksums && checksum)) {
+      try {
+        const stream = await storageService.getFileStream(storageKey);
+        if (!verifyChecksums || !checksum) {
+          stream.destroy();
+          return null;
+        }
+
+        const hash = createHash("sha256");
+        for await (const chunk of stream) {
+          hash.update(chunk);
+        }
+        if (hash.digest("hex") !== checksum) {
+          return { type: "mismatch", storageKey };
+        }
+      } catch (error) {
+        if (isNotFound(error)) return { type: "missing", storageKey };
+        if (isCorrupt(error)) return { type: "mismatch", storageKey };
+        throw error;
+      }
+    }
+    return null;
+  }
+
+  // The raw bytes are kept for inspection rather than deleted
+  private async quarantineObject(storageKey: string): Promise<void> {
+    await storageService.moveObject(storageKey, quarantineKey(storageKey, new Date()));
+  }
+
+  // Hides files whose current content is unreadable so they stop failing downloads;
+  // the records themselves are kept for an admin to look into
+  private async quarantineFiles(issue: ScrubIssue): Promise<void> {
+    const quarantined = await storage.quarantineFilesByStorageKey(issue.storageKey);
+    for (const file of quarantined) {
+      await storage.createAuditLog({
+        userId: file.ownerId,
+        action: "file_quarantined",
+        targetType: "file",
+        targetId: file.id,
+        meta: { storageKey: issue.storageKey, reason: issue.type },
+      });
+    }
+    if (quarantined.length > 0) {
+      issue.action = "quarantined";
+    }
+  }
+}
+
+export const scrubService = new ScrubService();
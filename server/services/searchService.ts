@@ -0,0 +1,161 @@
+import { storage, type SearchMatch } from "../storage";
+import type { File, Folder } from "@shared/schema";
+import { storageService } from "./backendService";
+import { isNotFound } from "./s3Service";
+import mammoth from "mammoth";
+import { PDFParse } from "pdf-parse";
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+// Extensions whose content is read as UTF-8 text, whatever mime type they were given
+const TEXT_EXTENSIONS = new Set([
+  "txt", "md", "markdown", "csv", "tsv", "log", "json", "xml", "yaml", "yml", "toml", "ini", "env",
+  "html", "htm", "css", "scss", "js", "jsx", "mjs", "cjs", "ts", "tsx", "py", "rb", "go", "rs",
+  "java", "kt", "c", "h", "cpp", "hpp", "cs", "php", "swift", "sh", "bash", "sql", "vue", "svelte",
+]);
+const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+// Originals are read into memory for extraction, and only the start of long documents is indexed
+const MAX_SOURCE_BYTES = parseInt(process.env.SEARCH_MAX_SOURCE_MB || "20", 10) * 1024 * 1024;
+const MAX_TEXT_CHARS = parseInt(process.env.SEARCH_MAX_TEXT_CHARS || "200000", 10);
+
+const TYPE_EXTENSIONS: Record<string, string[]> = {
+  image: ["jpg", "jpeg", "png", "gif", "webp", "svg"],
+  video: ["mp4", "mov", "avi", "mkv", "webm"],
+  audio: ["mp3", "wav", "ogg", "m4a", "flac"],
+  document: ["pdf", "doc", "docx", "txt", "rtf", "md"],
+  archive: ["zip", "rar", "7z", "tar", "gz"],
+};
+
+type IndexSource = Pick<File, "mime" | "ext">;
+
+export interface SearchOptions {
+  type?: string;
+  ext?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export type SearchResult =
+  | { type: "file"; item: File; rank: number; snippet: string | null } // snippet is HTML with matches in <mark>
+  | { type: "folder"; item: Folder; rank: number; snippet: null };
+
+export interface SearchPage {
+  results: SearchResult[];
+  total: number;
+  limit: number;
+  offset: number;
+  nextOffset: number | null;
+}
+
+export class SearchService {
+  canIndex(file: IndexSource & Pick<File, "size" | "encryption">): boolean {
+    // End-to-end encrypted content is ciphertext to the server
+    return !file.encryption && file.size <= MAX_SOURCE_BYTES && this.getExtractor(file) !== null;
+  }
+
+  // Run from the job queue once new content is stored. Content without any text is
+  // recorded too, so it isn't picked up again by a reindex.
+  async indexContent(storageKey: string, source: IndexSource): Promise<void> {
+    const extract = this.getExtractor(source);
+    if (!extract) return;
+
+    let content: Buffer;
+    try {
+      content = await storageService.getFile(storageKey);
+    } catch (error) {
+      if (isNotFound(error)) return; // deleted before its turn came
+      throw error;
+    }
+
+    // Postgres text can't hold NUL characters
+    const text = (await extract(content)).replace(/\u0000/g, "").slice(0, MAX_TEXT_CHARS);
+    await storage.upsertFileContent(storageKey, text);
+  }
+
+  async removeContent(storageKey: string): Promise<void> {
+    await storage.deleteFileContent(storageKey);
+  }
+
+  // Files and folders ranked together. Each list is fetched up to the end of the
+  // requested page, so the merged order is exact for every page.
+  async search(ownerId: string, query: string, options: SearchOptions = {}): Promise<SearchPage> {
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+    const offset = Math.max(options.offset ?? 0, 0);
+    const window = offset + limit;
+
+    let exts: string[] | undefined;
+    if (options.ext) {
+      exts = [options.ext.replace(/^\./, "").toLowerCase()];
+    } else if (options.type) {
+      exts = TYPE_EXTENSIONS[options.type] ?? [];
+    }
+
+    // Folders have no type, so any file filter leaves them out
+    const [fileMatches, folderMatches] = await Promise.all([
+      storage.searchFiles(query, ownerId, { exts, limit: window }),
+      exts ? Promise.resolve([] as SearchMatch<Folder>[]) : storage.searchFolders(query, ownerId, { limit: window }),
+    ]);
+
+    const merged: { type: "file" | "folder"; match: SearchMatch<File> | SearchMatch<Folder> }[] = [
+      ...fileMatches.map((match) => ({ type: "file" as const, match })),
+      ...folderMatches.map((match) => ({ type: "folder" as const, match })),
+    ];
+    merged.sort((a, b) => b.match.rank - a.match.rank || a.match.item.name.localeCompare(b.match.item.name));
+    const page = merged.slice(offset, window);
+
+    const pageFiles = page.filter((entry) => entry.type === "file").map((entry) => entry.match.item as File);
+    const snippets = await storage.getContentSnippets(
+      Array.from(new Set(pageFiles.map((file) => file.storageKey))),
+      query
+    );
+
+    const results: SearchResult[] = page.map(({ type, match }) =>
+      type === "file"
+        ? {
+          type,
+          item: match.item as File,
+          rank: match.rank,
+          snippet: snippets.get((match.item as File).storageKey) ?? null,
+        }
+        : { type, item: match.item as Folder, rank: match.rank, snippet: null }
+    );
+
+    const total = (fileMatches[0]?.total ?? 0) + (folderMatches[0]?.total ?? 0);
+    return {
+      results,
+      total,
+      limit,
+      offset,
+      nextOffset: window < total ? window : null,
+    };
+  }
+
+  private getExtractor(source: IndexSource): ((content: Buffer) => Promise<string>) | null {
+    const ext = source.ext.toLowerCase();
+
+    if (source.mime === "application/pdf" || ext === "pdf") {
+      return async (content) => {
+        const parser = new PDFParse({ data: content });
+        try {
+          return (await parser.getText({ pageJoiner: "" })).text;
+        } finally {
+          await parser.destroy();
+        }
+      };
+    }
+
+    if (source.mime === DOCX_MIME || ext === "docx") {
+      return async (content) => (await mammoth.extractRawText({ buffer: content })).value;
+    }
+
+    if (source.mime.startsWith("text/") || source.mime === "application/json" || TEXT_EXTENSIONS.has(ext)) {
+      return async (content) => content.toString("utf8");
+    }
+
+    return null;
+  }
+}
+
+export const searchService = new SearchService();
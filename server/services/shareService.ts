@@ -0,0 +1,238 @@
+import { storage } from "../storage";
+import crypto from "crypto";
+import type { File, Folder, ShareLink } from "@shared/schema";
+
+export interface ResolvedShare {
+  shareLink: ShareLink;
+  file?: File;
+  folder?: Folder;
+}
+
+export interface SharedFolderContents {
+  folder: Folder;
+  folders: Folder[];
+  files: File[];
+}
+
+export interface ShareLinkSummary {
+  id: string;
+  resourceType: string;
+  resourceId: string;
+  resourceName: string | null;
+  expiresAt: Date | null;
+  expired: boolean;
+  allowDownload: boolean;
+  passwordProtected: boolean;
+  createdAt: Date;
+}
+
+export class ShareService {
+  hashPassword(password: string): string {
+    return crypto.createHash("sha256").update(password).digest("hex");
+  }
+
+  verifyPassword(shareLink: ShareLink, password: string): boolean {
+    if (!shareLink.passwordHash) {
+      return true;
+    }
+
+    const expected = Buffer.from(shareLink.passwordHash, "hex");
+    const supplied = Buffer.from(this.hashPassword(password), "hex");
+    return expected.length === supplied.length && crypto.timingSafeEqual(expected, supplied);
+  }
+
+  // What a session remembers about an unlocked share. It names the password it was
+  // unlocked with, so changing or removing the password locks those sessions out again.
+  unlockToken(shareLink: ShareLink): string {
+    const fingerprint = crypto.createHash("sha256").update(shareLink.passwordHash ?? "").digest("hex").slice(0, 16);
+    return `${shareLink.id}:${fingerprint}`;
+  }
+
+  isExpired(shareLink: ShareLink): boolean {
+    return !!shareLink.expiresAt && shareLink.expiresAt.getTime() <= Date.now();
+  }
+
+  async resolveShare(id: string): Promise<ResolvedShare> {
+    const shareLink = await storage.getShareLink(id);
+    if (!shareLink) {
+      throw new Error("Share link not found");
+    }
+
+    if (this.isExpired(shareLink)) {
+      throw new Error("Share link expired");
+    }
+
+    if (shareLink.resourceType === "file") {
+      const file = await storage.getFileById(shareLink.resourceId);
+      if (!file || file.deletedAt || file.status !== "active" || file.ownerId !== shareLink.createdBy) {
+        throw new Error("Share link not found");
+      }
+      return { shareLink, file };
+    }
+
+    const folder = await storage.getFolderById(shareLink.resourceId);
+    if (!folder || folder.deletedAt || folder.ownerId !== shareLink.createdBy) {
+      throw new Error("Share link not found");
+    }
+    return { shareLink, folder };
+  }
+
+  async listShareLinks(userId: string): Promise<ShareLinkSummary[]> {
+    const links = await storage.getShareLinksByUser(userId);
+
+    return await Promise.all(links.map(async (link) => {
+      let resourceName: string | null = null;
+      if (link.resourceType === "file") {
+        const file = await storage.getFileById(link.resourceId);
+        resourceName = file ? `${file.name}${file.ext ? `.${file.ext}` : ""}` : null;
+      } else {
+        const folder = await storage.getFolderById(link.resourceId);
+        resourceName = folder ? folder.name : null;
+      }
+
+      return {
+        id: link.id,
+        resourceType: link.resourceType,
+        resourceId: link.resourceId,
+        resourceName,
+        expiresAt: link.expiresAt,
+        expired: this.isExpired(link),
+        allowDownload: link.allowDownload,
+        passwordProtected: !!link.passwordHash,
+        createdAt: link.createdAt,
+      };
+    }));
+  }
+
+  async updateShareLink(
+    id: string,
+    userId: string,
+    updates: { expiresAt?: Date | null; allowDownload?: boolean; password?: string | null }
+  ): Promise<ShareLink> {
+    const shareLink = await storage.getShareLink(id);
+    if (!shareLink) {
+      throw new Error("Share link not found");
+    }
+
+    if (shareLink.createdBy !== userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const changes: Partial<ShareLink> = {};
+    if (updates.expiresAt !== undefined) {
+      changes.expiresAt = updates.expiresAt;
+    }
+    if (updates.allowDownload !== undefined) {
+      changes.allowDownload = updates.allowDownload;
+    }
+    if (updates.password !== undefined) {
+      changes.passwordHash = updates.password ? this.hashPassword(updates.password) : null;
+    }
+
+    const updated = await storage.updateShareLink(id, changes);
+
+    await storage.createAuditLog({
+      userId,
+      action: "share_link_updated",
+      targetType: shareLink.resourceType,
+      targetId: shareLink.resourceId,
+      meta: {
+        shareId: id,
+        expiresAt: updates.expiresAt,
+        allowDownload: updates.allowDownload,
+        passwordChanged: updates.password !== undefined,
+      },
+    });
+
+    return updated!;
+  }
+
+  async revokeShareLink(id: string, userId: string): Promise<void> {
+    const shareLink = await storage.getShareLink(id);
+    if (!shareLink) {
+      throw new Error("Share link not found");
+    }
+
+    if (shareLink.createdBy !== userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await storage.deleteShareLink(id);
+
+    await storage.createAuditLog({
+      userId,
+      action: "share_link_revoked",
+      targetType: shareLink.resourceType,
+      targetId: shareLink.resourceId,
+      meta: { shareId: id },
+    });
+  }
+
+  // Walks up the parent chain to check that a folder lives inside the shared root
+  async isFolderWithinShare(rootFolderId: string, folderId: string): Promise<boolean> {
+    let currentId: string | null = folderId;
+    const visited = new Set<string>();
+
+    while (currentId && !visited.has(currentId)) {
+      if (currentId === rootFolderId) {
+        return true;
+      }
+      visited.add(currentId);
+
+      const folder = await storage.getFolderById(currentId);
+      if (!folder || folder.deletedAt) {
+        return false;
+      }
+      currentId = folder.parentId;
+    }
+
+    return false;
+  }
+
+  async getSharedFolderContents(share: ResolvedShare, folderId?: string): Promise<SharedFolderContents> {
+    if (!share.folder) {
+      throw new Error("Folder not found");
+    }
+
+    let folder = share.folder;
+    if (folderId && folderId !== share.folder.id) {
+      const target = await storage.getFolderById(folderId);
+      if (!target || !(await this.isFolderWithinShare(share.folder.id, folderId))) {
+        throw new Error("Folder not found");
+      }
+      folder = target;
+    }
+
+    const [folders, files] = await Promise.all([
+      storage.getFoldersByParent(folder.id, share.shareLink.createdBy),
+      storage.getFilesByFolder(folder.id, share.shareLink.createdBy),
+    ]);
+
+    return { folder, folders, files };
+  }
+
+  async getSharedFile(share: ResolvedShare, fileId: string): Promise<File> {
+    if (share.file) {
+      if (share.file.id !== fileId) {
+        throw new Error("File not found");
+      }
+      return share.file;
+    }
+
+    const file = await storage.getFileById(fileId);
+    if (
+      !file ||
+      file.deletedAt ||
+      file.status !== "active" ||
+      !file.folderId ||
+      file.ownerId !== share.shareLink.createdBy ||
+      !(await this.isFolderWithinShare(share.folder!.id, file.folderId))
+    ) {
+      throw new Error("File not found");
+    }
+
+    return file;
+  }
+}
+
+export const shareService = new ShareService();
@@ -0,0 +1,58 @@
+import { storage, type StoredObject } from "../storage";
+import { storageService } from "./backendService";
+import { storageMigrationService } from "./migrationService";
+
+const COLD_AFTER_DAYS = parseInt(process.env.STORAGE_COLD_AFTER_DAYS || "30", 10);
+const TIERING_BATCH_SIZE = parseInt(process.env.TIERING_BATCH_SIZE || "500", 10);
+
+// Moves content between storage backends behind the files' backs: reads are routed by
+// object location, so the storage key and every record pointing at it stay as they are
+export class TieringService {
+  // Moves files nobody has downloaded for STORAGE_COLD_AFTER_DAYS to the cold backend
+  async moveColdFiles(): Promise<number> {
+    const coldBackend = storageService.coldBackend;
+    if (!coldBackend) {
+      return 0;
+    }
+
+    const cutoff = new Date(Date.now() - COLD_AFTER_DAYS * 24 * 60 * 60 * 1000);
+    const files = await storage.getColdFiles(cutoff, coldBackend, storageService.defaultBackend, TIERING_BATCH_SIZE);
+
+    let moved = 0;
+    const seen = new Set<string>();
+    for (const file of files) {
+      // Deduplicated content shows up once per file sharing it
+      if (seen.has(file.storageKey)) continue;
+      seen.add(file.storageKey);
+
+      try {
+        await this.moveObject(file, coldBackend);
+        moved++;
+      } catch (error) {
+        console.error(`Failed to move ${file.storageKey} to ${coldBackend}:`, error);
+      }
+    }
+
+    return moved;
+  }
+
+  // Copies and verifies the object on the target before switching reads over to it
+  async moveObject(object: StoredObject, backend: string): Promise<void> {
+    const current = await storageService.locate(object.storageKey);
+    if (current === backend) {
+      return;
+    }
+
+    const source = storageService.get(current);
+    await storageMigrationService.copyObject(object, source, storageService.get(backend));
+    await storage.setObjectBackend(object.storageKey, backend);
+
+    try {
+      await source.deleteFile(object.storageKey);
+    } catch (error) {
+      console.error("Failed to delete tiered object from its previous backend:", error);
+    }
+  }
+}
+
+export const tieringService = new TieringService();
@@ -0,0 +1,365 @@
+import { storage, NameConflictError } from "../storage";
+import type { File, Folder } from "@shared/schema";
+import { storageService } from "./backendService";
+import { placementService } from "./placementService";
+import { storageMigrationService } from "./migrationService";
+import { blobService } from "./blobService";
+import { versionService } from "./versionService";
+import { quotaService } from "./quotaService";
+import { fileService } from "./fileService";
+
+// What to do when an item lands next to a sibling of the same name: fail, give it a
+// free "name (n)" name, or overwrite (files become a new version, folders merge)
+export const CONFLICT_POLICIES = ["fail", "rename", "overwrite"] as const;
+export type ConflictPolicy = typeof CONFLICT_POLICIES[number];
+
+const MAX_RENAME_ATTEMPTS = 1000;
+
+function fileConflict(existing: File): NameConflictError {
+  return new NameConflictError({ type: "file", id: existing.id, name: existing.name, ext: existing.ext });
+}
+
+function folderConflict(existing: Folder): NameConflictError {
+  return new NameConflictError({ type: "folder", id: existing.id, name: existing.name });
+}
+
+// Moves and copies files and folders within one user's tree
+export class TransferService {
+  // A new name, if given, is checked in the target and written along with the move
+  async moveFile(fileId: string, folderId: string | null, ownerId: string, onConflict: ConflictPolicy = "fail", name?: string): Promise<File> {
+    const file = await this.getOwnedFile(fileId, ownerId);
+    const target = await this.getTargetFolder(folderId, ownerId);
+    this.checkFileTarget(file, target);
+
+    if (file.folderId === folderId && name === undefined) {
+      return file;
+    }
+
+    const moved = await this.moveFileInto(name === undefined ? file : { ...file, name }, folderId, onConflict, ownerId);
+
+    await storage.createAuditLog({
+      userId: ownerId,
+      action: "file_moved",
+      targetType: "file",
+      targetId: file.id,
+      meta: { from: file.folderId, to: folderId, onConflict, resultId: moved.id },
+    });
+
+    return moved;
+  }
+
+  async copyFile(fileId: string, folderId: string | null, ownerId: string, onConflict: ConflictPolicy = "fail"): Promise<File> {
+    const file = await this.getOwnedFile(fileId, ownerId);
+    const target = await this.getTargetFolder(folderId, ownerId);
+    this.checkFileTarget(file, target);
+    await quotaService.assertCanStore(ownerId, file.size);
+
+    const copy = await this.copyFileInto(file, folderId, onConflict, ownerId);
+
+    await storage.createAuditLog({
+      userId: ownerId,
+      action: "file_copied",
+      targetType: "file",
+      targetId: copy.id,
+      meta: { sourceId: file.id, to: folderId, onConflict },
+    });
+
+    return copy;
+  }
+
+  async moveFolder(folderId: string, parentId: string | null, ownerId: string, onConflict: ConflictPolicy = "fail", name?: string): Promise<Folder> {
+    const folder = await this.getOwnedFolder(folderId, ownerId);
+    const target = await this.getTargetFolder(parentId, ownerId);
+    if (target?.encryption) {
+      throw new Error("Encrypted folders cannot contain subfolders");
+    }
+    if (await this.isWithin(parentId, folder.id)) {
+      throw new Error("Cannot move a folder into itself");
+    }
+
+    if (folder.parentId === parentId && name === undefined) {
+      return folder;
+    }
+
+    const moved = await this.moveFolderInto(name === undefined ? folder : { ...folder, name }, parentId, onConflict, ownerId);
+
+    await storage.createAuditLog({
+      userId: ownerId,
+      action: "folder_moved",
+      targetType: "folder",
+      targetId: folder.id,
+      meta: { from: folder.parentId, to: parentId, onConflict, resultId: moved.id },
+    });
+
+    return moved;
+  }
+
+  async copyFolder(folderId: string, parentId: string | null, ownerId: string, onConflict: ConflictPolicy = "fail"): Promise<Folder> {
+    const folder = await this.getOwnedFolder(folderId, ownerId);
+    const target = await this.getTargetFolder(parentId, ownerId);
+    if (target?.encryption) {
+      throw new Error("Encrypted folders cannot contain subfolders");
+    }
+    if (await this.isWithin(parentId, folder.id)) {
+      throw new Error("Cannot copy a folder into itself");
+    }
+
+    const contained = await storage.getFilesInFolders(await storage.getFolderSubtreeIds(folder.id));
+    const size = contained
+      .filter((file) => file.status === "active" && !file.deletedAt)
+      .reduce((sum, file) => sum + file.size, 0);
+    await quotaService.assertCanStore(ownerId, size);
+
+    const copy = await this.copyFolderInto(folder, parentId, onConflict, ownerId);
+
+    await storage.createAuditLog({
+      userId: ownerId,
+      action: "folder_copied",
+      targetType: "folder",
+      targetId: copy.id,
+      meta: { sourceId: folder.id, to: parentId, onConflict },
+    });
+
+    return copy;
+  }
+
+  private async moveFileInto(file: File, folderId: string | null, onConflict: ConflictPolicy, ownerId: string): Promise<File> {
+    const existing = await this.findConflictingFile(file, folderId);
+    if (!existing) {
+      return (await storage.updateFile(file.id, { folderId, name: file.name }))!;
+    }
+
+    if (onConflict === "fail") {
+      throw fileConflict(existing);
+    }
+    if (onConflict === "rename") {
+      const name = await this.uniqueFileName(ownerId, folderId, file.name, file.ext);
+      return (await storage.updateFile(file.id, { folderId, name }))!;
+    }
+
+    // The moved content becomes the latest version of the file it collides with,
+    // and the moved file itself goes to the trash with its own history
+    const updated = await this.addAsVersion(existing, file, ownerId);
+    await fileService.deleteFile(file.id, ownerId);
+    return updated;
+  }
+
+  private async copyFileInto(file: File, folderId: string | null, onConflict: ConflictPolicy, ownerId: string): Promise<File> {
+    // Unlike a move, the source counts as a sibling: a copy next to it needs its own
+    // name, and overwriting the source with itself would change nothing
+    const existing = file.encryption ? undefined : await storage.findFileByName(ownerId, folderId, file.name, file.ext);
+    if (existing && onConflict === "fail") {
+      throw fileConflict(existing);
+    }
+    if (existing && onConflict === "overwrite" && existing.id !== file.id) {
+      return await this.addAsVersion(existing, file, ownerId);
+    }
+
+    const name = existing ? await this.uniqueFileName(ownerId, folderId, file.name, file.ext) : file.name;
+    const storageKey = await this.duplicateContent(file, ownerId, folderId);
+
+    // Only the current content is copied, as the first version of the copy
+    let copy: File;
+    try {
+      copy = await storage.createFile({
+        name,
+        ext: file.ext,
+        mime: file.mime,
+        size: file.size,
+        storageKey,
+        checksum: file.checksum,
+        status: "active",
+        folderId,
+        encryption: file.encryption,
+        ownerId,
+      });
+    } catch (error) {
+      await blobService.release(storageKey);
+      throw error;
+    }
+    await versionService.ensureHistory(copy);
+
+    return copy;
+  }
+
+  private async moveFolderInto(folder: Folder, parentId: string | null, onConflict: ConflictPolicy, ownerId: string): Promise<Folder> {
+    const existing = await storage.findFolderByName(ownerId, parentId, folder.name);
+    if (!existing || existing.id === folder.id) {
+      return (await storage.updateFolder(folder.id, { parentId, name: folder.name }))!;
+    }
+
+    if (onConflict === "fail") {
+      throw folderConflict(existing);
+    }
+    if (onConflict === "rename") {
+      const name = await this.uniqueFolderName(ownerId, parentId, folder.name);
+      return (await storage.updateFolder(folder.id, { parentId, name }))!;
+    }
+
+    // Merge: the contents move over one by one under the same policy, and the emptied
+    // folder goes to the trash
+    this.checkMergeable(folder, existing);
+    const [subfolders, files] = await Promise.all([
+      storage.getFoldersByParent(folder.id, ownerId),
+      storage.getFilesByFolder(folder.id, ownerId),
+    ]);
+    for (const subfolder of subfolders) {
+      await this.moveFolderInto(subfolder, existing.id, onConflict, ownerId);
+    }
+    for (const file of files) {
+      await this.moveFileInto(file, existing.id, onConflict, ownerId);
+    }
+    await storage.deleteFolder(folder.id);
+
+    return existing;
+  }
+
+  private async copyFolderInto(folder: Folder, parentId: string | null, onConflict: ConflictPolicy, ownerId: string): Promise<Folder> {
+    const existing = await storage.findFolderByName(ownerId, parentId, folder.name);
+    if (existing && onConflict === "fail") {
+      throw folderConflict(existing);
+    }
+
+    // Contents are listed before anything is written, so a copy never picks up its own output
+    const [subfolders, files] = await Promise.all([
+      storage.getFoldersByParent(folder.id, ownerId),
+      storage.getFilesByFolder(folder.id, ownerId),
+    ]);
+
+    // Overwriting the source itself, i.e. copying it into its own parent, keeps both
+    let copy: Folder;
+    if (existing && onConflict === "overwrite" && existing.id !== folder.id) {
+      this.checkMergeable(folder, existing);
+      copy = existing;
+    } else {
+      copy = await storage.createFolder({
+        name: existing ? await this.uniqueFolderName(ownerId, parentId, folder.name) : folder.name,
+        parentId,
+        // Copied files keep their wrapped keys, so the copy unlocks with the same passphrase
+        encryption: folder.encryption,
+        ownerId,
+      });
+    }
+
+    for (const subfolder of subfolders) {
+      await this.copyFolderInto(subfolder, copy.id, onConflict, ownerId);
+    }
+    for (const file of files) {
+      await this.copyFileInto(file, copy.id, onConflict, ownerId);
+    }
+
+    return copy;
+  }
+
+  private async addAsVersion(existing: File, source: File, ownerId: string): Promise<File> {
+    const storageKey = await this.duplicateContent(source, ownerId, existing.folderId);
+    try {
+      await versionService.addVersion(existing, {
+        storageKey,
+        mime: source.mime,
+        size: source.size,
+        checksum: source.checksum,
+      }, ownerId);
+    } catch (error) {
+      await blobService.release(storageKey);
+      throw error;
+    }
+    return (await storage.getFileById(existing.id))!;
+  }
+
+  // Returns a key holding the file's current content for a new record to point at:
+  // a new reference on the shared blob, or a verified copy for content stored before
+  // deduplication, which has no blob to share
+  private async duplicateContent(file: File, ownerId: string, folderId: string | null): Promise<string> {
+    if (file.checksum) {
+      const shared = await blobService.reuse(file.checksum);
+      if (shared) {
+        return shared;
+      }
+    }
+
+    const storageKey = fileService.generateStorageKey(ownerId, `${file.name}.${file.ext}`);
+    await placementService.place(storageKey, { ownerId, folderId, size: file.size });
+    const checksum = await storageMigrationService.copyObject(file, storageService, storageService, storageKey);
+    return await blobService.register(checksum, storageKey, file.size);
+  }
+
+  // Encrypted files are wrapped with their folder's key and can't leave it, and
+  // encrypted folders only take client-side ciphertext
+  private checkFileTarget(file: File, target: Folder | undefined) {
+    if (file.encryption && (target?.id ?? null) !== file.folderId) {
+      throw new Error("Encrypted files cannot leave their folder");
+    }
+    if (!file.encryption && target?.encryption) {
+      throw new Error("Encrypted folder requires client-side encryption");
+    }
+  }
+
+  // Files of two encrypted folders are wrapped with different keys
+  private checkMergeable(source: Folder, target: Folder) {
+    if (source.encryption || target.encryption) {
+      throw new Error("Encrypted folders cannot be merged");
+    }
+  }
+
+  // Encrypted names are ciphertext, so they never collide
+  private async findConflictingFile(file: File, folderId: string | null): Promise<File | undefined> {
+    if (file.encryption) {
+      return undefined;
+    }
+    const existing = await storage.findFileByName(file.ownerId, folderId, file.name, file.ext);
+    return existing?.id === file.id ? undefined : existing;
+  }
+
+  // The first free "name (n)" among the siblings, for keeping both items on a clash
+  async uniqueFileName(ownerId: string, folderId: string | null, name: string, ext: string): Promise<string> {
+    for (let n = 1; n <= MAX_RENAME_ATTEMPTS; n++) {
+      const candidate = `${name} (${n})`;
+      if (!(await storage.findFileByName(ownerId, folderId, candidate, ext))) {
+        return candidate;
+      }
+    }
+    throw new Error("Name conflict");
+  }
+
+  async uniqueFolderName(ownerId: string, parentId: string | null, name: string): Promise<string> {
+    for (let n = 1; n <= MAX_RENAME_ATTEMPTS; n++) {
+      const candidate = `${name} (${n})`;
+      if (!(await storage.findFolderByName(ownerId, parentId, candidate))) {
+        return candidate;
+      }
+    }
+    throw new Error("Name conflict");
+  }
+
+  // Whether the folder is the ancestor or anywhere below it, however deep
+  private async isWithin(folderId: string | null, ancestorId: string): Promise<boolean> {
+    if (!folderId) {
+      return false;
+    }
+    return (await storage.getFolderSubtreeIds(ancestorId)).includes(folderId);
+  }
+
+  private async getOwnedFile(fileId: string, ownerId: string): Promise<File> {
+    const file = await storage.getFileById(fileId);
+    if (!file || file.ownerId !== ownerId || file.status !== "active" || file.deletedAt) {
+      throw new Error("File not found");
+    }
+    return file;
+  }
+
+  private async getOwnedFolder(folderId: string, ownerId: string): Promise<Folder> {
+    const folder = await storage.getFolderById(folderId);
+    if (!folder || folder.ownerId !== ownerId || folder.deletedAt) {
+      throw new Error("Folder not found");
+    }
+    return folder;
+  }
+
+  // null is the root; anything else must be a live folder of the same user
+  private async getTargetFolder(folderId: string | null, ownerId: string): Promise<Folder | undefined> {
+    return folderId ? await this.getOwnedFolder(folderId, ownerId) : undefined;
+  }
+}
+
+export const transferService = new TransferService();
@@ -0,0 +1,251 @@
+import { storage, NameConflictError } from "../storage";
+import { trashSettingsSchema, type File, type Folder, type TrashSettings, type User } from "@shared/schema";
+import { fileService } from "./fileService";
+
+const TRASH_SETTINGS_KEY = "trash";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_BATCH_SIZE = parseInt(process.env.TRASH_PURGE_BATCH_SIZE || "200", 10);
+
+// Used until an admin saves settings of their own
+const DEFAULT_TRASH_SETTINGS: TrashSettings = {
+  retentionDays: parseInt(process.env.TRASH_TTL_DAYS || "30", 10),
+};
+
+export type TrashItemType = "file" | "folder";
+
+export type TrashedItem<T> = T & {
+  expiresAt: Date;
+  expiresInDays: number; // whole days left, 0 once it is due for the next purge
+};
+
+export interface TrashListing {
+  files: TrashedItem<File>[];
+  folders: TrashedItem<Folder>[];
+  retentionDays: number;
+}
+
+export class TrashService {
+  async getSettings(): Promise<TrashSettings> {
+    const saved = trashSettingsSchema.partial().safeParse(await storage.getSetting(TRASH_SETTINGS_KEY));
+    return { ...DEFAULT_TRASH_SETTINGS, ...(saved.success ? saved.data : {}) };
+  }
+
+  async updateSettings(updates: Partial<TrashSettings>, adminId: string): Promise<TrashSettings> {
+    const updated = { ...(await this.getSettings()), ...updates };
+    await storage.setSetting(TRASH_SETTINGS_KEY, updated);
+
+    await storage.createAuditLog({
+      userId: adminId,
+      action: "trash_settings_updated",
+      targetType: "settings",
+      targetId: TRASH_SETTINGS_KEY,
+      meta: updates,
+    });
+
+    return updated;
+  }
+
+  // A null retention puts the user back on the default
+  async setUserRetention(userId: string, retentionDays: number | null, adminId: string): Promise<User> {
+    const user = await storage.updateUser(userId, { trashRetentionDays: retentionDays });
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    await storage.createAuditLog({
+      userId: adminId,
+      action: "user_trash_retention_updated",
+      targetType: "user",
+      targetId: userId,
+      meta: { retentionDays },
+    });
+
+    return user;
+  }
+
+  async getRetentionDays(userId: string): Promise<number> {
+    const [user, settings] = await Promise.all([storage.getUser(userId), this.getSettings()]);
+    return user?.trashRetentionDays ?? settings.retentionDays;
+  }
+
+  async list(ownerId: string): Promise<TrashListing> {
+    const [items, retentionDays] = await Promise.all([storage.getTrashItems(ownerId), this.getRetentionDays(ownerId)]);
+
+    const withExpiry = <T extends File | Folder>(item: T): TrashedItem<T> => {
+      const expiresAt = new Date(item.deletedAt!.getTime() + retentionDays * DAY_MS);
+      return {
+        ...item,
+        expiresAt,
+        expiresInDays: Math.max(0, Math.ceil((expiresAt.getTime() - Date.now()) / DAY_MS)),
+      };
+    };
+
+    return {
+      files: items.files.map(withExpiry),
+      folders: items.folders.map(withExpiry),
+      retentionDays,
+    };
+  }
+
+  // Purges trashed items past their owner's retention, a batch at a time until none are
+  // left. Items that fail are skipped for the rest of the run so they can't stall it.
+  async purgeExpired(): Promise<number> {
+    const { retentionDays } = await this.getSettings();
+    const failedIds: string[] = [];
+
+    let purged = 0;
+    for (;;) {
+      const expired = await storage.getExpiredTrashItems(retentionDays, PURGE_BATCH_SIZE, failedIds);
+      for (const item of expired) {
+        try {
+          await this.purge(item.id, item.type, item.ownerId, "expired");
+          purged++;
+        } catch (error) {
+          // Gone already, e.g. inside a folder purged earlier in this batch
+          if ((error as Error).message === "Item not found") continue;
+          console.error(`Failed to purge expired ${item.type} ${item.id}:`, error);
+          failedIds.push(item.id);
+        }
+      }
+      if (expired.length < PURGE_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    return purged;
+  }
+
+  // Brings back everything trashed together with the item, and the folders above it if
+  // they were trashed since; with its parent gone it is restored to the root instead.
+  // Nothing is restored if any of it would take a name already in use where it lands.
+  async restore(id: string, type: TrashItemType, ownerId: string): Promise<void> {
+    const item = await this.getOwnedItem(id, type, ownerId);
+    if (!item.deletedAt) {
+      return; // already back, e.g. with an earlier item of the same batch
+    }
+
+    const parentId = type === "file" ? (item as File).folderId : (item as Folder).parentId;
+    const ancestors = await this.trashedAncestors(parentId, ownerId);
+    await this.assertNamesFree(item, type, ancestors, ownerId);
+
+    if (item.trashBatchId) {
+      await storage.restoreTrashBatch(item.trashBatchId, ownerId);
+    } else {
+      await storage.restoreFromTrash(id, type);
+    }
+
+    for (const folder of ancestors.folders) {
+      await storage.restoreFromTrash(folder.id, "folder");
+    }
+    const reattached = ancestors.reachesRoot;
+    if (!reattached) {
+      if (type === "file") {
+        await storage.updateFile(id, { folderId: null });
+      } else {
+        await storage.updateFolder(id, { parentId: null });
+      }
+    }
+
+    await storage.createAuditLog({
+      userId: ownerId,
+      action: `${type}_restored`,
+      targetType: type,
+      targetId: id,
+      meta: { trashBatchId: item.trashBatchId, restoredToRoot: !reattached },
+    });
+  }
+
+  // Deletes a trashed item for good; for a folder that includes every file below it
+  // and their stored content
+  async purge(id: string, type: TrashItemType, ownerId: string, reason?: "expired"): Promise<void> {
+    const item = await this.getOwnedItem(id, type, ownerId);
+    if (!item.deletedAt) {
+      throw new Error("Item is not in trash");
+    }
+
+    if (type === "file") {
+      await fileService.permanentlyDeleteFile(id, ownerId, reason);
+      return;
+    }
+
+    // Only files trashed along with the folder; anything else below it, e.g. trashed
+    // earlier on its own, is kept and ends up at the root
+    const folderIds = await storage.getFolderSubtreeIds(id);
+    const contained = (await storage.getFilesInFolders(folderIds))
+      .filter((file) => file.deletedAt && file.trashBatchId === item.trashBatchId);
+    for (const file of contained) {
+      await fileService.permanentlyDeleteFile(file.id, ownerId, reason);
+    }
+
+    // Subfolders go with it through the parent_id cascade
+    await storage.permanentlyDelete(id, "folder");
+
+    await storage.createAuditLog({
+      userId: ownerId,
+      action: "folder_permanently_deleted",
+      targetType: "folder",
+      targetId: id,
+      meta: {
+        name: item.name,
+        folderCount: folderIds.length,
+        fileCount: contained.length,
+        ...(reason ? { reason } : {}),
+      },
+    });
+  }
+
+  private async getOwnedItem(id: string, type: TrashItemType, ownerId: string): Promise<File | Folder> {
+    const item = type === "file" ? await storage.getFileById(id) : await storage.getFolderById(id);
+    if (!item || item.ownerId !== ownerId) {
+      throw new Error("Item not found");
+    }
+    return item;
+  }
+
+  // The trashed folders on the way up to the root, nearest first. reachesRoot is false
+  // when the chain is broken, leaving the caller to reattach the item at the root.
+  private async trashedAncestors(parentId: string | null, ownerId: string): Promise<{ folders: Folder[]; reachesRoot: boolean }> {
+    if (!parentId) {
+      return { folders: [], reachesRoot: true };
+    }
+    const chain = await storage.getFolderAncestors(parentId, ownerId);
+    return {
+      folders: chain.filter((folder) => folder.deletedAt).reverse(),
+      reachesRoot: chain.length > 0 && chain[0].parentId === null,
+    };
+  }
+
+  // Checks every item that comes back among live siblings: the top of the item's batch
+  // and the trashed folders above it
+  private async assertNamesFree(
+    item: File | Folder,
+    type: TrashItemType,
+    ancestors: { folders: Folder[]; reachesRoot: boolean },
+    ownerId: string
+  ): Promise<void> {
+    const roots = item.trashBatchId
+      ? await storage.getTrashBatchRoots(item.trashBatchId, ownerId)
+      : type === "file" ? { files: [item as File], folders: [] } : { files: [], folders: [item as Folder] };
+
+    // The item itself goes to the root when the folders above it are gone
+    const landsIn = (candidateId: string, parentId: string | null) =>
+      candidateId === item.id && !ancestors.reachesRoot ? null : parentId;
+
+    for (const file of roots.files) {
+      if (file.encryption) continue; // encrypted names are ciphertext, so they never collide
+      const existing = await storage.findFileByName(ownerId, landsIn(file.id, file.folderId), file.name, file.ext);
+      if (existing && existing.id !== file.id) {
+        throw new NameConflictError({ type: "file", id: existing.id, name: existing.name, ext: existing.ext });
+      }
+    }
+
+    for (const folder of [...roots.folders, ...ancestors.folders]) {
+      const existing = await storage.findFolderByName(ownerId, landsIn(folder.id, folder.parentId), folder.name);
+      if (existing && existing.id !== folder.id) {
+        throw new NameConflictError({ type: "folder", id: existing.id, name: existing.name });
+      }
+    }
+  }
+}
+
+export const trashService = new TrashService();
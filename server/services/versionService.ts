@@ -0,0 +1,142 @@
+import { storage } from "../storage";
+import { blobService } from "./blobService";
+import type { File, FileVersion } from "@shared/schema";
+
+export interface VersionContent {
+  storageKey: string;
+  mime: string;
+  size: number;
+  checksum: string | null;
+}
+
+export interface FileVersionSummary extends FileVersion {
+  isCurrent: boolean;
+  sizeDelta: number | null; // bytes gained or lost against the previous version
+  contentChanged: boolean | null; // null when either checksum is unknown
+}
+
+export class VersionService {
+  // Files created before versioning existed have no history rows; seed version 1 from
+  // the file record so every file has at least its current content on record
+  async ensureHistory(file: File): Promise<FileVersion[]> {
+    const versions = await storage.getFileVersions(file.id);
+    if (versions.length > 0) {
+      return versions;
+    }
+
+    await storage.seedFileHistory(file.id);
+    return await storage.getFileVersions(file.id);
+  }
+
+  // Seeds the history first when needed, under the same lock as the numbering
+  async addVersion(file: File, content: VersionContent, userId: string): Promise<FileVersion> {
+    const version = await storage.createNextFileVersion({
+      fileId: file.id,
+      ...content,
+      createdBy: userId,
+    });
+
+    await storage.createAuditLog({
+      userId,
+      action: "file_version_created",
+      targetType: "file",
+      targetId: file.id,
+      meta: { versionId: version.id, versionNumber: version.versionNumber, storageKey: content.storageKey },
+    });
+
+    return version;
+  }
+
+  async listVersions(fileId: string, userId: string): Promise<FileVersionSummary[]> {
+    const file = await this.getOwnedFile(fileId, userId);
+    const versions = await this.ensureHistory(file);
+
+    // Versions come newest first, so the previous version is the next entry
+    return versions.map((version, i) => {
+      const previous = versions[i + 1];
+      return {
+        ...version,
+        isCurrent: this.isCurrent(file, version),
+        sizeDelta: previous ? version.size - previous.size : null,
+        contentChanged:
+          previous && version.checksum && previous.checksum ? version.checksum !== previous.checksum : null,
+      };
+    });
+  }
+
+  async getVersion(fileId: string, versionId: string, userId: string): Promise<{ file: File; version: FileVersion }> {
+    const file = await this.getOwnedFile(fileId, userId);
+    const version = await storage.getFileVersionById(versionId);
+    if (!version || version.fileId !== file.id) {
+      throw new Error("Version not found");
+    }
+
+    return { file, version };
+  }
+
+  async restoreVersion(fileId: string, versionId: string, userId: string): Promise<File> {
+    const { file, version } = await this.getVersion(fileId, versionId, userId);
+
+    const updated = await storage.updateFile(file.id, {
+      storageKey: version.storageKey,
+      mime: version.mime,
+      size: version.size,
+      checksum: version.checksum,
+      currentVersionId: version.id,
+    });
+
+    await storage.createAuditLog({
+      userId,
+      action: "file_version_restored",
+      targetType: "file",
+      targetId: file.id,
+      meta: { versionId: version.id, versionNumber: version.versionNumber },
+    });
+
+    return updated!;
+  }
+
+  async deleteVersion(fileId: string, versionId: string, userId: string): Promise<void> {
+    const { file, version } = await this.getVersion(fileId, versionId, userId);
+
+    if (this.isCurrent(file, version)) {
+      throw new Error("Cannot delete current version");
+    }
+
+    await storage.deleteFileVersion(version.id);
+    await blobService.release(version.storageKey);
+
+    await storage.createAuditLog({
+      userId,
+      action: "file_version_deleted",
+      targetType: "file",
+      targetId: file.id,
+      meta: { versionId: version.id, versionNumber: version.versionNumber, storageKey: version.storageKey },
+    });
+  }
+
+  // One storage key per reference the file holds, for releasing on permanent deletion
+  async getStorageReferences(file: File): Promise<string[]> {
+    const versions = await storage.getFileVersions(file.id);
+    return versions.length > 0 ? versions.map((version) => version.storageKey) : [file.storageKey];
+  }
+
+  private isCurrent(file: File, version: FileVersion): boolean {
+    return file.currentVersionId ? file.currentVersionId === version.id : file.storageKey === version.storageKey;
+  }
+
+  private async getOwnedFile(fileId: string, userId: string): Promise<File> {
+    const file = await storage.getFileById(fileId);
+    if (!file || file.status !== "active") {
+      throw new Error("File not found");
+    }
+
+    if (file.ownerId !== userId) {
+      throw new Error("Unauthorized");
+    }
+
+    return file;
+  }
+}
+
+export const versionService = new VersionService();
@@ -1,33 +1,165 @@
-import { users, folders, files, shareLinks, auditLogs, type User, type InsertUser, type Folder, type InsertFolder, type File, type InsertFile, type ShareLink, type InsertShareLink, type AuditLog, type InsertAuditLog } from "@shared/schema";
+import { users, userKeys, folders, files, blobs, renditions, fileContents, fileVersions, uploadSessions, storageMigrations, storageMigrationObjects, scrubRuns, jobs, settings, objectLocations, placementRules, shareLinks, auditLogs, type User, type InsertUser, type UserKey, type Folder, type InsertFolder, type File, type InsertFile, type Blob, type Rendition, type FileVersion, type InsertFileVersion, type UploadSession, type InsertUploadSession, type StorageMigration, type StorageMigrationObject, type ScrubRun, type Job, type PlacementRule, type InsertPlacementRule, type ShareLink, type InsertShareLink, type AuditLog, type InsertAuditLog, type NameConflict } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, isNull, isNotNull, desc, like, or, inArray } from "drizzle-orm";
+import { eq, ne, and, isNull, isNotNull, desc, ilike, or, inArray, notInArray, lt, lte, sql, type AnyColumn } from "drizzle-orm";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
+import { randomUUID } from "crypto";
 
 const PostgresSessionStore = connectPg(session);
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const HEADLINE_OPTIONS = "StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=\" … \"";
+
+// Sibling names are compared ignoring case unless NAMES_CASE_SENSITIVE is set, so the
+// tree maps onto case-insensitive file systems and sync clients
+const CASE_SENSITIVE_NAMES = process.env.NAMES_CASE_SENSITIVE === "true";
+
+// Thrown when a write would give an item the name of a live sibling
+export class NameConflictError extends Error {
+  constructor(public readonly conflict: NameConflict) {
+    super("Name conflict");
+  }
+}
+
+// Makes user input match literally inside a LIKE pattern
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+export interface StoredObject {
+  storageKey: string;
+  mime: string;
+  size: number;
+  checksum: string | null;
+}
+
+export interface StorageUsage {
+  fileCount: number;
+  fileBytes: number; // current content of the owner's files
+  versionBytes: number; // previous versions, when counted
+  pendingBytes: number; // uploads in progress, reserved up front
+}
+
+export interface SearchMatch<T> {
+  item: T;
+  rank: number;
+  total: number; // matches before the limit
+}
+
+export interface ExpiredTrashItem {
+  id: string;
+  type: "file" | "folder";
+  ownerId: string;
+}
+
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserByGoogleId(googleId: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, updates: Partial<User>): Promise<User | undefined>;
+  getStorageUsage(ownerId: string, options: { includeTrash: boolean; includeVersions: boolean }): Promise<StorageUsage>;
+
+  getSetting(key: string): Promise<unknown>;
+  setSetting(key: string, value: unknown): Promise<void>;
+  
+  getUserKey(userId: string): Promise<UserKey | undefined>;
+  createUserKey(key: { userId: string; wrappedKey: string; masterKeyId: string }): Promise<UserKey>;
+  getUserKeysNotWrappedBy(masterKeyId: string): Promise<UserKey[]>;
+  updateUserKey(userId: string, updates: Partial<UserKey>): Promise<UserKey | undefined>;
   
   getFolderById(id: string): Promise<Folder | undefined>;
   getFoldersByParent(parentId: string | null, ownerId: string): Promise<Folder[]>;
   createFolder(folder: InsertFolder & { ownerId: string }): Promise<Folder>;
   updateFolder(id: string, updates: Partial<Folder>): Promise<Folder | undefined>;
   deleteFolder(id: string): Promise<void>;
+  getFolderSubtreeIds(folderId: string): Promise<string[]>;
+  findFolderByName(ownerId: string, parentId: string | null, name: string): Promise<Folder | undefined>;
+  getFolderAncestors(folderId: string, ownerId: string): Promise<Folder[]>;
+  getFolderByPath(ownerId: string, segments: string[]): Promise<Folder | undefined>;
   
   getFileById(id: string): Promise<File | undefined>;
   getFilesByFolder(folderId: string | null, ownerId: string): Promise<File[]>;
   createFile(file: InsertFile & { ownerId: string }): Promise<File>;
   updateFile(id: string, updates: Partial<File>): Promise<File | undefined>;
+  getFilesInFolders(folderIds: string[]): Promise<File[]>;
+  markFileAccessed(id: string): Promise<void>;
   deleteFile(id: string): Promise<void>;
-  searchFiles(query: string, ownerId: string, filters?: { type?: string; ext?: string }): Promise<File[]>;
+  searchFiles(query: string, ownerId: string, options: { exts?: string[]; limit: number }): Promise<SearchMatch<File>[]>;
+  searchFolders(query: string, ownerId: string, options: { limit: number }): Promise<SearchMatch<Folder>[]>;
+  getContentSnippets(storageKeys: string[], query: string): Promise<Map<string, string>>;
+  findFileByName(ownerId: string, folderId: string | null, name: string, ext: string): Promise<File | undefined>;
+  
+  getBlobByStorageKey(storageKey: string): Promise<Blob | undefined>;
+  incrementBlobRefs(checksum: string): Promise<Blob | undefined>;
+  upsertBlob(blob: { checksum: string; storageKey: string; size: number }): Promise<Blob>;
+  adoptBlob(blob: { checksum: string; storageKey: string; size: number }): Promise<void>;
+  decrementBlobRefs(storageKey: string): Promise<Blob | undefined>;
+  deleteUnreferencedBlob(checksum: string): Promise<Blob | undefined>;
+  getBlobStats(): Promise<{ blobCount: number; storedBytes: number; referencedBytes: number }>;
+  
+  getFileVersions(fileId: string): Promise<FileVersion[]>;
+  getFileVersionById(id: string): Promise<FileVersion | undefined>;
+  createFileVersion(version: InsertFileVersion & { createdBy: string }): Promise<FileVersion>;
+  seedFileHistory(fileId: string): Promise<void>;
+  createNextFileVersion(version: Omit<InsertFileVersion, "versionNumber"> & { createdBy: string }): Promise<FileVersion>;
+  deleteFileVersion(id: string): Promise<void>;
+  
+  getRendition(sourceKey: string, kind: string): Promise<Rendition | undefined>;
+  getRenditionsBySource(sourceKey: string): Promise<Rendition[]>;
+  upsertRendition(rendition: Omit<Rendition, "id" | "createdAt">): Promise<Rendition>;
+  deleteRenditionsBySource(sourceKey: string): Promise<void>;
+
+  upsertFileContent(storageKey: string, text: string): Promise<void>;
+  deleteFileContent(storageKey: string): Promise<void>;
+  getUnindexedFiles(): Promise<File[]>;
+  
+  getUploadSessionByUploadId(uploadId: string): Promise<UploadSession | undefined>;
+  getStaleUploadSessions(updatedBefore: Date): Promise<UploadSession[]>;
+  createUploadSession(session: InsertUploadSession & { ownerId: string }): Promise<UploadSession>;
+  updateUploadSession(id: string, updates: Partial<UploadSession>): Promise<UploadSession | undefined>;
+
+  getStoredObjects(): Promise<StoredObject[]>;
+  getStorageMigrations(limit?: number): Promise<StorageMigration[]>;
+  getLatestStorageMigration(sourceDriver: string, targetDriver: string): Promise<StorageMigration | undefined>;
+  createStorageMigration(migration: { sourceDriver: string; targetDriver: string }): Promise<StorageMigration>;
+  updateStorageMigration(id: string, updates: Partial<StorageMigration>): Promise<StorageMigration | undefined>;
+  refreshStorageMigrationCounts(id: string): Promise<StorageMigration | undefined>;
+  addStorageMigrationObjects(migrationId: string, objects: StoredObject[]): Promise<void>;
+  getUnfinishedStorageMigrationObjects(migrationId: string): Promise<StorageMigrationObject[]>;
+  updateStorageMigrationObject(id: string, updates: Partial<StorageMigrationObject>): Promise<void>;
+
+  getReferencedStorageKeys(): Promise<Set<string>>;
+  quarantineFilesByStorageKey(storageKey: string): Promise<File[]>;
+  getScrubRuns(limit?: number): Promise<ScrubRun[]>;
+  failRunningScrubRuns(error: string): Promise<void>;
+  createScrubRun(run: { repair: boolean; verifyChecksums: boolean }): Promise<ScrubRun>;
+  updateScrubRun(id: string, updates: Partial<ScrubRun>): Promise<ScrubRun | undefined>;
+
+  createJob(job: { type: string; payload: unknown; maxAttempts?: number; runAt?: Date }): Promise<Job>;
+  claimJob(types: string[], staleBefore: Date): Promise<Job | undefined>;
+  updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined>;
+  deleteJob(id: string): Promise<Job | undefined>;
+  getJob(id: string): Promise<Job | undefined>;
+  getJobs(status?: string, limit?: number): Promise<Job[]>;
+  getJobCounts(): Promise<{ status: string; count: number }[]>;
+  setChecksumForStorageKey(storageKey: string, checksum: string): Promise<void>;
+
+  getObjectBackend(storageKey: string): Promise<string | undefined>;
+  setObjectBackend(storageKey: string, backend: string): Promise<void>;
+  deleteObjectLocation(storageKey: string): Promise<void>;
+  getColdFiles(accessedBefore: Date, coldBackend: string, defaultBackend: string, limit: number): Promise<File[]>;
+  getBackendUsage(defaultBackend: string): Promise<{ backend: string; fileCount: number; bytes: number }[]>;
+  getPlacementRules(): Promise<PlacementRule[]>;
+  createPlacementRule(rule: InsertPlacementRule): Promise<PlacementRule>;
+  deletePlacementRule(id: string): Promise<PlacementRule | undefined>;
   
   getShareLink(id: string): Promise<ShareLink | undefined>;
+  getShareLinksByUser(createdBy: string): Promise<ShareLink[]>;
   createShareLink(shareLink: InsertShareLink & { createdBy: string }): Promise<ShareLink>;
+  updateShareLink(id: string, updates: Partial<ShareLink>): Promise<ShareLink | undefined>;
   deleteShareLink(id: string): Promise<void>;
   
   createAuditLog(log: InsertAuditLog & { userId: string }): Promise<AuditLog>;
@@ -35,6 +167,9 @@ export interface IStorage {
   
   getTrashItems(ownerId: string): Promise<{ files: File[]; folders: Folder[] }>;
   restoreFromTrash(id: string, type: 'file' | 'folder'): Promise<void>;
+  getTrashBatchRoots(batchId: string, ownerId: string): Promise<{ files: File[]; folders: Folder[] }>;
+  restoreTrashBatch(batchId: string, ownerId: string): Promise<void>;
+  getExpiredTrashItems(defaultRetentionDays: number, limit: number, excludeIds?: string[]): Promise<ExpiredTrashItem[]>;
   permanentlyDelete(id: string, type: 'file' | 'folder'): Promise<void>;
 
   sessionStore: session.Store;
@@ -73,6 +208,90 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
+    const [user] = (await db
+      .update(users)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning()) as User[];
+    return user || undefined;
+  }
+
+  // Bytes charged to a user. Deduplicated content is charged to every file using it,
+  // and uploads in progress count at their declared size so parallel uploads can't overshoot.
+  async getStorageUsage(
+    ownerId: string,
+    options: { includeTrash: boolean; includeVersions: boolean }
+  ): Promise<StorageUsage> {
+    const charged = and(
+      eq(files.ownerId, ownerId),
+      ne(files.status, "pending"),
+      options.includeTrash ? undefined : isNull(files.deletedAt)
+    );
+
+    const [current] = await db.select({
+      fileCount: sql<number>`count(*)::int`,
+      bytes: sql<number>`coalesce(sum(${files.size}), 0)::bigint`.mapWith(Number),
+    }).from(files).where(charged);
+
+    // The current version is already counted through the file itself
+    const [previous] = options.includeVersions
+      ? await db.select({
+        bytes: sql<number>`coalesce(sum(${fileVersions.size}), 0)::bigint`.mapWith(Number),
+      }).from(fileVersions)
+        .innerJoin(files, eq(fileVersions.fileId, files.id))
+        .where(and(charged, ne(fileVersions.id, files.currentVersionId)))
+      : [{ bytes: 0 }];
+
+    const [pending] = await db.select({
+      bytes: sql<number>`coalesce(sum(${uploadSessions.size}), 0)::bigint`.mapWith(Number),
+    }).from(uploadSessions)
+      .where(and(eq(uploadSessions.ownerId, ownerId), eq(uploadSessions.status, "pending")));
+
+    return {
+      fileCount: current.fileCount,
+      fileBytes: current.bytes,
+      versionBytes: previous.bytes,
+      pendingBytes: pending.bytes,
+    };
+  }
+
+  async getSetting(key: string): Promise<unknown> {
+    const [setting] = await db.select().from(settings).where(eq(settings.key, key));
+    return setting?.value;
+  }
+
+  async setSetting(key: string, value: unknown): Promise<void> {
+    await db.insert(settings)
+      .values({ key, value })
+      .onConflictDoUpdate({ target: settings.key, set: { value, updatedAt: new Date() } });
+  }
+
+  async getUserKey(userId: string): Promise<UserKey | undefined> {
+    const [key] = await db.select().from(userKeys).where(eq(userKeys.userId, userId));
+    return key || undefined;
+  }
+
+  // Keeps the first key when two requests race to create one for the same user
+  async createUserKey(key: { userId: string; wrappedKey: string; masterKeyId: string }): Promise<UserKey> {
+    await db.insert(userKeys).values(key).onConflictDoNothing();
+    const [existing] = await db.select().from(userKeys).where(eq(userKeys.userId, key.userId));
+    return existing;
+  }
+
+  async getUserKeysNotWrappedBy(masterKeyId: string): Promise<UserKey[]> {
+    return await db.select().from(userKeys).where(ne(userKeys.masterKeyId, masterKeyId));
+  }
+
+  async updateUserKey(userId: string, updates: Partial<UserKey>): Promise<UserKey | undefined> {
+    const [key] = (await db
+      .update(userKeys)
+      .set(updates)
+      .where(eq(userKeys.userId, userId))
+      .returning()) as UserKey[];
+    return key || undefined;
+  }
+
   async getFolderById(id: string): Promise<Folder | undefined> {
     const [folder] = await db.select().from(folders).where(eq(folders.id, id));
     return folder || undefined;
@@ -89,6 +308,8 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createFolder(folder: InsertFolder & { ownerId: string }): Promise<Folder> {
+    await this.assertFolderNameFree(folder.ownerId, folder.parentId ?? null, folder.name);
+
     const [newFolder] = (await db
       .insert(folders)
       .values(folder)
@@ -97,6 +318,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateFolder(id: string, updates: Partial<Folder>): Promise<Folder | undefined> {
+    if (updates.name !== undefined || updates.parentId !== undefined) {
+      const current = await this.getFolderById(id);
+      if (current && !current.deletedAt) {
+        const next = { ...current, ...updates };
+        await this.assertFolderNameFree(next.ownerId, next.parentId, next.name, id);
+      }
+    }
+
     const [folder] = (await db
       .update(folders)
       .set({ ...updates, updatedAt: new Date() })
@@ -105,11 +334,87 @@ export class DatabaseStorage implements IStorage {
     return folder || undefined;
   }
 
+  // Trashes the folder with everything below it that isn't already in the trash, as
+  // one batch. Things trashed earlier keep their own batch and stay there on restore.
   async deleteFolder(id: string): Promise<void> {
+    const folderIds = await this.getFolderSubtreeIds(id);
+    const trashed = { deletedAt: new Date(), trashBatchId: randomUUID() };
+
     await db
       .update(folders)
-      .set({ deletedAt: new Date() })
-      .where(eq(folders.id, id));
+      .set(trashed)
+      .where(and(inArray(folders.id, folderIds), isNull(folders.deletedAt)));
+    await db
+      .update(files)
+      .set(trashed)
+      .where(and(inArray(files.folderId, folderIds), isNull(files.deletedAt)));
+  }
+
+  // The folder itself and every folder below it, trashed or not
+  async getFolderSubtreeIds(folderId: string): Promise<string[]> {
+    const result = await db.execute<{ id: string }>(sql`
+      with recursive subtree as (
+        select ${folders.id} as id from ${folders} where ${folders.id} = ${folderId}
+        union
+        select child.id from ${folders} child join subtree on child.parent_id = subtree.id
+      )
+      select id from subtree
+    `);
+    return result.rows.map((row) => row.id);
+  }
+
+  async findFolderByName(ownerId: string, parentId: string | null, name: string): Promise<Folder | undefined> {
+    const [folder] = await db.select().from(folders).where(
+      and(
+        parentId ? eq(folders.parentId, parentId) : isNull(folders.parentId),
+        eq(folders.ownerId, ownerId),
+        this.sameName(folders.name, name),
+        isNull(folders.deletedAt)
+      )
+    ).limit(1);
+    return folder || undefined;
+  }
+
+  // The folder and every folder above it, root first, in one query. The union stops at
+  // rows already seen, so a cycle in folder data ends the walk instead of looping.
+  async getFolderAncestors(folderId: string, ownerId: string): Promise<Folder[]> {
+    const rows = await db.select().from(folders).where(
+      and(
+        eq(folders.ownerId, ownerId),
+        sql`${folders.id} in (
+          with recursive ancestry as (
+            select id, parent_id from ${folders} where id = ${folderId}
+            union
+            select parent.id, parent.parent_id
+            from ${folders} parent join ancestry on parent.id = ancestry.parent_id
+          )
+          select id from ancestry
+        )`
+      )
+    );
+
+    // Rows come back unordered; follow the parent links down from the folder itself
+    const byId = new Map(rows.map((folder) => [folder.id, folder]));
+    const chain: Folder[] = [];
+    let current = byId.get(folderId);
+    while (current && chain.length < rows.length) {
+      chain.unshift(current);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return chain;
+  }
+
+  // Resolves names from the root down, e.g. ["Projects", "2024", "Q1"], matching
+  // each one the way sibling names are compared
+  async getFolderByPath(ownerId: string, segments: string[]): Promise<Folder | undefined> {
+    let folder: Folder | undefined;
+    for (const name of segments) {
+      folder = await this.findFolderByName(ownerId, folder?.id ?? null, name);
+      if (!folder) {
+        return undefined;
+      }
+    }
+    return folder;
   }
 
   async getFileById(id: string): Promise<File | undefined> {
@@ -122,62 +427,683 @@ export class DatabaseStorage implements IStorage {
       and(
         folderId ? eq(files.folderId, folderId) : isNull(files.folderId),
         eq(files.ownerId, ownerId),
+        eq(files.status, "active"),
         isNull(files.deletedAt)
       )
     ).orderBy(files.name);
   }
 
+  // files.backend follows the object location whenever a file is pointed at content
+  private backendOf(storageKey: string) {
+    return sql<string | null>`(select ${objectLocations.backend} from ${objectLocations} where ${objectLocations.storageKey} = ${storageKey})`;
+  }
+
   async createFile(file: InsertFile & { ownerId: string }): Promise<File> {
+    await this.assertFileNameFree({ ...file, folderId: file.folderId ?? null, encryption: file.encryption ?? null });
+
     const [newFile] = (await db
       .insert(files)
-      .values(file)
+      .values({ ...file, backend: this.backendOf(file.storageKey) })
       .returning()) as File[];
     return newFile;
   }
 
   async updateFile(id: string, updates: Partial<File>): Promise<File | undefined> {
+    if (updates.name !== undefined || updates.ext !== undefined || updates.folderId !== undefined) {
+      const current = await this.getFileById(id);
+      if (current && current.status === "active" && !current.deletedAt) {
+        await this.assertFileNameFree({ ...current, ...updates }, id);
+      }
+    }
+
     const [file] = (await db
       .update(files)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({
+        ...updates,
+        ...(updates.storageKey ? { backend: this.backendOf(updates.storageKey) } : {}),
+        updatedAt: new Date(),
+      })
       .where(eq(files.id, id))
       .returning()) as File[];
     return file || undefined;
   }
 
+  async markFileAccessed(id: string): Promise<void> {
+    await db.update(files).set({ lastAccessedAt: new Date() }).where(eq(files.id, id));
+  }
+
   async deleteFile(id: string): Promise<void> {
     await db
       .update(files)
-      .set({ deletedAt: new Date() })
+      .set({ deletedAt: new Date(), trashBatchId: randomUUID() })
       .where(eq(files.id, id));
   }
 
-  async searchFiles(query: string, ownerId: string, filters?: { type?: string; ext?: string }): Promise<File[]> {
-    let conditions = [
+  async getFilesInFolders(folderIds: string[]): Promise<File[]> {
+    if (folderIds.length === 0) {
+      return [];
+    }
+    return await db.select().from(files).where(inArray(files.folderId, folderIds));
+  }
+
+  // Names match on their words or as a plain substring, so partially typed names still
+  // find something; content matches come from the extracted text index
+  async searchFiles(query: string, ownerId: string, options: { exts?: string[]; limit: number }): Promise<SearchMatch<File>[]> {
+    const tsquery = sql`websearch_to_tsquery('english', ${query})`;
+    const nameVector = sql`to_tsvector('english', ${files.name})`;
+    const namePattern = `%${escapeLike(query)}%`;
+
+    const conditions = [
       eq(files.ownerId, ownerId),
+      eq(files.status, "active"),
       isNull(files.deletedAt),
-      like(files.name, `%${query}%`)
+      isNull(files.encryption), // names are ciphertext and content is never extracted
+      or(
+        sql`${nameVector} @@ ${tsquery}`,
+        sql`${fileContents.searchVector} @@ ${tsquery}`,
+        ilike(files.name, namePattern)
+      ),
     ];
+    if (options.exts) {
+      conditions.push(inArray(files.ext, options.exts));
+    }
 
-    if (filters?.ext) {
-      conditions.push(eq(files.ext, filters.ext));
+    // A name hit counts for more than the same words somewhere in the content
+    const rank = sql<number>`(
+      ts_rank_cd(${nameVector}, ${tsquery}) * 2
+      + coalesce(ts_rank_cd(${fileContents.searchVector}, ${tsquery}), 0)
+      + case when ${files.name} ilike ${namePattern} then 0.1 else 0 end
+    )::real`;
+
+    return await db.select({
+      item: files,
+      rank,
+      total: sql<number>`count(*) over ()`.mapWith(Number),
+    }).from(files)
+      .leftJoin(fileContents, eq(fileContents.storageKey, files.storageKey))
+      .where(and(...conditions))
+      .orderBy(desc(rank), files.name)
+      .limit(options.limit);
+  }
+
+  async searchFolders(query: string, ownerId: string, options: { limit: number }): Promise<SearchMatch<Folder>[]> {
+    const tsquery = sql`websearch_to_tsquery('english', ${query})`;
+    const nameVector = sql`to_tsvector('english', ${folders.name})`;
+    const namePattern = `%${escapeLike(query)}%`;
+
+    const rank = sql<number>`(
+      ts_rank_cd(${nameVector}, ${tsquery}) * 2
+      + case when ${folders.name} ilike ${namePattern} then 0.1 else 0 end
+    )::real`;
+
+    return await db.select({
+      item: folders,
+      rank,
+      total: sql<number>`count(*) over ()`.mapWith(Number),
+    }).from(folders)
+      .where(and(
+        eq(folders.ownerId, ownerId),
+        isNull(folders.deletedAt),
+        or(sql`${nameVector} @@ ${tsquery}`, ilike(folders.name, namePattern))
+      ))
+      .orderBy(desc(rank), folders.name)
+      .limit(options.limit);
+  }
+
+  // Highlighting reads the whole text, so it is done only for the page being returned.
+  // The text is HTML-escaped first, leaving <mark> as the only markup in a snippet.
+  async getContentSnippets(storageKeys: string[], query: string): Promise<Map<string, string>> {
+    if (storageKeys.length === 0) {
+      return new Map();
     }
 
-    if (filters?.type) {
-      const typePatterns = {
-        'image': ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg'],
-        'video': ['mp4', 'mov', 'avi', 'mkv', 'webm'],
-        'audio': ['mp3', 'wav', 'ogg', 'm4a', 'flac'],
-        'document': ['pdf', 'doc', 'docx', 'txt', 'rtf'],
-        'archive': ['zip', 'rar', '7z', 'tar', 'gz']
-      };
-      
-      const exts = typePatterns[filters.type as keyof typeof typePatterns];
-      if (exts) {
-        conditions.push(inArray(files.ext, exts));
-      }
+    const tsquery = sql`websearch_to_tsquery('english', ${query})`;
+    const escaped = sql`replace(replace(replace(${fileContents.text}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+    const rows = await db.select({
+      storageKey: fileContents.storageKey,
+      snippet: sql<string>`ts_headline('english', ${escaped}, ${tsquery}, ${HEADLINE_OPTIONS})`,
+    }).from(fileContents)
+      .where(and(inArray(fileContents.storageKey, storageKeys), sql`${fileContents.searchVector} @@ ${tsquery}`));
+
+    return new Map(rows.map((row) => [row.storageKey, row.snippet]));
+  }
+
+  async findFileByName(ownerId: string, folderId: string | null, name: string, ext: string): Promise<File | undefined> {
+    const [file] = await db.select().from(files).where(
+      and(
+        folderId ? eq(files.folderId, folderId) : isNull(files.folderId),
+        eq(files.ownerId, ownerId),
+        this.sameName(files.name, name),
+        this.sameName(files.ext, ext),
+        eq(files.status, "active"),
+        isNull(files.deletedAt)
+      )
+    ).limit(1);
+    return file || undefined;
+  }
+
+  async getBlobByStorageKey(storageKey: string): Promise<Blob | undefined> {
+    const [blob] = await db.select().from(blobs).where(eq(blobs.storageKey, storageKey));
+    return blob || undefined;
+  }
+
+  async incrementBlobRefs(checksum: string): Promise<Blob | undefined> {
+    const [blob] = (await db
+      .update(blobs)
+      .set({ refCount: sql`${blobs.refCount} + 1` })
+      .where(eq(blobs.checksum, checksum))
+      .returning()) as Blob[];
+    return blob || undefined;
+  }
+
+  // Inserts a new blob, or takes a reference on the existing one when another
+  // upload of the same content got there first
+  async upsertBlob(blob: { checksum: string; storageKey: string; size: number }): Promise<Blob> {
+    const [result] = (await db
+      .insert(blobs)
+      .values({ ...blob, refCount: 1 })
+      .onConflictDoUpdate({
+        target: blobs.checksum,
+        set: { refCount: sql`${blobs.refCount} + 1` },
+      })
+      .returning()) as Blob[];
+    return result;
+  }
+
+  // Inserts a blob for content already in use, holding a reference for every version
+  // that points at it; does nothing if the checksum or key already has a blob
+  async adoptBlob(blob: { checksum: string; storageKey: string; size: number }): Promise<void> {
+    await db.execute(sql`
+      insert into ${blobs} (checksum, storage_key, size, ref_count)
+      select ${blob.checksum}, ${blob.storageKey}, ${blob.size}, count(*)::int
+      from ${fileVersions}
+      where ${fileVersions.storageKey} = ${blob.storageKey}
+      having count(*) > 0
+      on conflict do nothing
+    `);
+  }
+
+  async decrementBlobRefs(storageKey: string): Promise<Blob | undefined> {
+    const [blob] = (await db
+      .update(blobs)
+      .set({ refCount: sql`${blobs.refCount} - 1` })
+      .where(eq(blobs.storageKey, storageKey))
+      .returning()) as Blob[];
+    return blob || undefined;
+  }
+
+  async deleteUnreferencedBlob(checksum: string): Promise<Blob | undefined> {
+    const [blob] = (await db
+      .delete(blobs)
+      .where(and(eq(blobs.checksum, checksum), lte(blobs.refCount, 0)))
+      .returning()) as Blob[];
+    return blob || undefined;
+  }
+
+  async getBlobStats(): Promise<{ blobCount: number; storedBytes: number; referencedBytes: number }> {
+    const [stats] = await db.select({
+      blobCount: sql<number>`count(*)::int`,
+      storedBytes: sql<number>`coalesce(sum(${blobs.size}), 0)::bigint`.mapWith(Number),
+      referencedBytes: sql<number>`coalesce(sum(${blobs.size} * ${blobs.refCount}), 0)::bigint`.mapWith(Number),
+    }).from(blobs);
+    return stats;
+  }
+
+  async getFileVersions(fileId: string): Promise<FileVersion[]> {
+    return await db.select().from(fileVersions)
+      .where(eq(fileVersions.fileId, fileId))
+      .orderBy(desc(fileVersions.versionNumber));
+  }
+
+  async getFileVersionById(id: string): Promise<FileVersion | undefined> {
+    const [version] = await db.select().from(fileVersions).where(eq(fileVersions.id, id));
+    return version || undefined;
+  }
+
+  async createFileVersion(version: InsertFileVersion & { createdBy: string }): Promise<FileVersion> {
+    const [newVersion] = (await db
+      .insert(fileVersions)
+      .values(version)
+      .returning()) as FileVersion[];
+    return newVersion;
+  }
+
+  // Seeds version 1 from the file record for files created before versioning existed
+  async seedFileHistory(fileId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await this.lockVersionHistory(tx, fileId);
+    });
+  }
+
+  // Adds the version after the file's latest one and makes it current. The file row is
+  // locked meanwhile, so concurrent versions of one file queue up instead of colliding
+  // on the version number.
+  async createNextFileVersion(version: Omit<InsertFileVersion, "versionNumber"> & { createdBy: string }): Promise<FileVersion> {
+    return await db.transaction(async (tx) => {
+      const latest = await this.lockVersionHistory(tx, version.fileId);
+
+      const [newVersion] = (await tx
+        .insert(fileVersions)
+        .values({ ...version, versionNumber: latest + 1 })
+        .returning()) as FileVersion[];
+
+      await tx
+        .update(files)
+        .set({
+          storageKey: version.storageKey,
+          mime: version.mime,
+          size: version.size,
+          checksum: version.checksum,
+          backend: this.backendOf(version.storageKey),
+          currentVersionId: newVersion.id,
+          updatedAt: new Date(),
+        })
+        .where(eq(files.id, version.fileId));
+
+      return newVersion;
+    });
+  }
+
+  // Locks the file row for the rest of the transaction and returns its latest version
+  // number, seeding version 1 from the file record when it has no history yet
+  private async lockVersionHistory(tx: Transaction, fileId: string): Promise<number> {
+    const [file] = await tx.select().from(files).where(eq(files.id, fileId)).for("update");
+    if (!file) {
+      throw new Error("File not found");
+    }
+
+    const [{ latest }] = await tx
+      .select({ latest: sql<number>`coalesce(max(${fileVersions.versionNumber}), 0)::int` })
+      .from(fileVersions)
+      .where(eq(fileVersions.fileId, fileId));
+    if (latest > 0) {
+      return latest;
     }
 
-    return await db.select().from(files).where(and(...conditions)).orderBy(files.name);
+    const [initial] = (await tx
+      .insert(fileVersions)
+      .values({
+        fileId,
+        versionNumber: 1,
+        storageKey: file.storageKey,
+        mime: file.mime,
+        size: file.size,
+        checksum: file.checksum,
+        createdBy: file.ownerId,
+      })
+      .returning()) as FileVersion[];
+    await tx.update(files).set({ currentVersionId: initial.id }).where(eq(files.id, fileId));
+
+    return 1;
+  }
+
+  async deleteFileVersion(id: string): Promise<void> {
+    await db.delete(fileVersions).where(eq(fileVersions.id, id));
+  }
+
+  async getRendition(sourceKey: string, kind: string): Promise<Rendition | undefined> {
+    const [rendition] = await db.select().from(renditions)
+      .where(and(eq(renditions.sourceKey, sourceKey), eq(renditions.kind, kind)));
+    return rendition || undefined;
+  }
+
+  async getRenditionsBySource(sourceKey: string): Promise<Rendition[]> {
+    return await db.select().from(renditions).where(eq(renditions.sourceKey, sourceKey));
+  }
+
+  async upsertRendition(rendition: Omit<Rendition, "id" | "createdAt">): Promise<Rendition> {
+    const [saved] = (await db
+      .insert(renditions)
+      .values(rendition)
+      .onConflictDoUpdate({
+        target: [renditions.sourceKey, renditions.kind],
+        set: rendition,
+      })
+      .returning()) as Rendition[];
+    return saved;
+  }
+
+  async deleteRenditionsBySource(sourceKey: string): Promise<void> {
+    await db.delete(renditions).where(eq(renditions.sourceKey, sourceKey));
+  }
+
+  async upsertFileContent(storageKey: string, text: string): Promise<void> {
+    await db.insert(fileContents)
+      .values({ storageKey, text })
+      .onConflictDoUpdate({ target: fileContents.storageKey, set: { text } });
+  }
+
+  async deleteFileContent(storageKey: string): Promise<void> {
+    await db.delete(fileContents).where(eq(fileContents.storageKey, storageKey));
+  }
+
+  // Current content of active files that has never been through text extraction
+  async getUnindexedFiles(): Promise<File[]> {
+    const rows = await db.select({ file: files }).from(files)
+      .leftJoin(fileContents, eq(fileContents.storageKey, files.storageKey))
+      .where(and(eq(files.status, "active"), isNull(files.encryption), isNull(fileContents.storageKey)));
+    return rows.map((row) => row.file);
+  }
+
+  async getUploadSessionByUploadId(uploadId: string): Promise<UploadSession | undefined> {
+    const [session] = await db.select().from(uploadSessions).where(eq(uploadSessions.uploadId, uploadId));
+    return session || undefined;
+  }
+
+  async getStaleUploadSessions(updatedBefore: Date): Promise<UploadSession[]> {
+    return await db.select().from(uploadSessions).where(
+      and(
+        eq(uploadSessions.status, "pending"),
+        lt(uploadSessions.updatedAt, updatedBefore)
+      )
+    );
+  }
+
+  async createUploadSession(session: InsertUploadSession & { ownerId: string }): Promise<UploadSession> {
+    const [newSession] = (await db
+      .insert(uploadSessions)
+      .values(session)
+      .returning()) as UploadSession[];
+    return newSession;
+  }
+
+  async updateUploadSession(id: string, updates: Partial<UploadSession>): Promise<UploadSession | undefined> {
+    const [session] = (await db
+      .update(uploadSessions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(uploadSessions.id, id))
+      .returning()) as UploadSession[];
+    return session || undefined;
+  }
+
+  // Every object the database points at: current file content plus all stored versions
+  async getStoredObjects(): Promise<StoredObject[]> {
+    const current = await db.select({
+      storageKey: files.storageKey,
+      mime: files.mime,
+      size: files.size,
+      checksum: files.checksum,
+    }).from(files).where(eq(files.status, "active"));
+
+    const versions = await db.select({
+      storageKey: fileVersions.storageKey,
+      mime: fileVersions.mime,
+      size: fileVersions.size,
+      checksum: fileVersions.checksum,
+    }).from(fileVersions);
+
+    // Deduplicated content is shared between records, so keep one entry per key
+    const objects = new Map<string, StoredObject>();
+    [...current, ...versions].forEach((object) => objects.set(object.storageKey, object));
+    return Array.from(objects.values());
+  }
+
+  async getStorageMigrations(limit = 20): Promise<StorageMigration[]> {
+    return await db.select().from(storageMigrations)
+      .orderBy(desc(storageMigrations.createdAt))
+      .limit(limit);
+  }
+
+  async getLatestStorageMigration(sourceDriver: string, targetDriver: string): Promise<StorageMigration | undefined> {
+    const [migration] = await db.select().from(storageMigrations)
+      .where(and(
+        eq(storageMigrations.sourceDriver, sourceDriver),
+        eq(storageMigrations.targetDriver, targetDriver)
+      ))
+      .orderBy(desc(storageMigrations.createdAt))
+      .limit(1);
+    return migration || undefined;
+  }
+
+  async createStorageMigration(migration: { sourceDriver: string; targetDriver: string }): Promise<StorageMigration> {
+    const [newMigration] = (await db
+      .insert(storageMigrations)
+      .values(migration)
+      .returning()) as StorageMigration[];
+    return newMigration;
+  }
+
+  async updateStorageMigration(id: string, updates: Partial<StorageMigration>): Promise<StorageMigration | undefined> {
+    const [migration] = (await db
+      .update(storageMigrations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(storageMigrations.id, id))
+      .returning()) as StorageMigration[];
+    return migration || undefined;
+  }
+
+  // Recomputes the progress counters from the per-object rows, so they stay right across resumes
+  async refreshStorageMigrationCounts(id: string): Promise<StorageMigration | undefined> {
+    const [counts] = await db.select({
+      totalObjects: sql<number>`count(*)::int`,
+      copiedObjects: sql<number>`count(*) filter (where ${storageMigrationObjects.status} = 'copied')::int`,
+      failedObjects: sql<number>`count(*) filter (where ${storageMigrationObjects.status} = 'failed')::int`,
+      copiedBytes: sql<number>`coalesce(sum(${storageMigrationObjects.size}) filter (where ${storageMigrationObjects.status} = 'copied'), 0)::bigint`.mapWith(Number),
+    }).from(storageMigrationObjects).where(eq(storageMigrationObjects.migrationId, id));
+
+    return await this.updateStorageMigration(id, counts);
+  }
+
+  async addStorageMigrationObjects(migrationId: string, objects: StoredObject[]): Promise<void> {
+    const BATCH_SIZE = 1000;
+    for (let i = 0; i < objects.length; i += BATCH_SIZE) {
+      await db
+        .insert(storageMigrationObjects)
+        .values(objects.slice(i, i + BATCH_SIZE).map((object) => ({ ...object, migrationId })))
+        .onConflictDoNothing();
+    }
+  }
+
+  async getUnfinishedStorageMigrationObjects(migrationId: string): Promise<StorageMigrationObject[]> {
+    return await db.select().from(storageMigrationObjects).where(
+      and(
+        eq(storageMigrationObjects.migrationId, migrationId),
+        ne(storageMigrationObjects.status, "copied")
+      )
+    );
+  }
+
+  async updateStorageMigrationObject(id: string, updates: Partial<StorageMigrationObject>): Promise<void> {
+    await db
+      .update(storageMigrationObjects)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(storageMigrationObjects.id, id));
+  }
+
+  // Every key any record may still need, including pending uploads and quarantined files,
+  // so none of them is mistaken for an orphan
+  async getReferencedStorageKeys(): Promise<Set<string>> {
+    const keys = await Promise.all([
+      db.select({ storageKey: files.storageKey }).from(files),
+      db.select({ storageKey: fileVersions.storageKey }).from(fileVersions),
+      db.select({ storageKey: blobs.storageKey }).from(blobs),
+      db.select({ storageKey: renditions.storageKey }).from(renditions),
+      db.select({ storageKey: uploadSessions.storageKey }).from(uploadSessions)
+        .where(eq(uploadSessions.status, "pending")),
+    ]);
+    return new Set(keys.flat().map((row) => row.storageKey));
+  }
+
+  async quarantineFilesByStorageKey(storageKey: string): Promise<File[]> {
+    return (await db
+      .update(files)
+      .set({ status: "quarantined", updatedAt: new Date() })
+      .where(and(eq(files.storageKey, storageKey), eq(files.status, "active")))
+      .returning()) as File[];
+  }
+
+  async getScrubRuns(limit = 20): Promise<ScrubRun[]> {
+    return await db.select().from(scrubRuns)
+      .orderBy(desc(scrubRuns.startedAt))
+      .limit(limit);
+  }
+
+  async failRunningScrubRuns(error: string): Promise<void> {
+    await db
+      .update(scrubRuns)
+      .set({ status: "failed", error, completedAt: new Date() })
+      .where(eq(scrubRuns.status, "running"));
+  }
+
+  async createScrubRun(run: { repair: boolean; verifyChecksums: boolean }): Promise<ScrubRun> {
+    const [newRun] = (await db
+      .insert(scrubRuns)
+      .values(run)
+      .returning()) as ScrubRun[];
+    return newRun;
+  }
+
+  async updateScrubRun(id: string, updates: Partial<ScrubRun>): Promise<ScrubRun | undefined> {
+    const [run] = (await db
+      .update(scrubRuns)
+      .set(updates)
+      .where(eq(scrubRuns.id, id))
+      .returning()) as ScrubRun[];
+    return run || undefined;
+  }
+
+  async createJob(job: { type: string; payload: unknown; maxAttempts?: number; runAt?: Date }): Promise<Job> {
+    const [newJob] = (await db
+      .insert(jobs)
+      .values(job)
+      .returning()) as Job[];
+    return newJob;
+  }
+
+  // Takes the next due job, or one whose worker went quiet before staleBefore. SKIP LOCKED
+  // keeps concurrent workers from claiming the same row.
+  async claimJob(types: string[], staleBefore: Date): Promise<Job | undefined> {
+    if (types.length === 0) {
+      return undefined;
+    }
+
+    const next = db.select({ id: jobs.id }).from(jobs)
+      .where(and(
+        inArray(jobs.type, types),
+        or(
+          and(eq(jobs.status, "queued"), lte(jobs.runAt, new Date())),
+          and(eq(jobs.status, "running"), lt(jobs.lockedAt, staleBefore))
+        )
+      ))
+      .orderBy(jobs.runAt)
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const [job] = (await db
+      .update(jobs)
+      .set({
+        status: "running",
+        attempts: sql`${jobs.attempts} + 1`,
+        lockedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(inArray(jobs.id, next))
+      .returning()) as Job[];
+    return job || undefined;
+  }
+
+  async updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined> {
+    const [job] = (await db
+      .update(jobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning()) as Job[];
+    return job || undefined;
+  }
+
+  async deleteJob(id: string): Promise<Job | undefined> {
+    const [job] = (await db.delete(jobs).where(eq(jobs.id, id)).returning()) as Job[];
+    return job || undefined;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job || undefined;
+  }
+
+  async getJobs(status?: string, limit = 100): Promise<Job[]> {
+    return await db.select().from(jobs)
+      .where(status ? eq(jobs.status, status) : undefined)
+      .orderBy(desc(jobs.updatedAt))
+      .limit(limit);
+  }
+
+  async getJobCounts(): Promise<{ status: string; count: number }[]> {
+    return await db.select({
+      status: jobs.status,
+      count: sql<number>`count(*)::int`,
+    }).from(jobs).groupBy(jobs.status);
+  }
+
+  // Fills in checksums computed after the fact, for content stored without one
+  async setChecksumForStorageKey(storageKey: string, checksum: string): Promise<void> {
+    await db.update(files).set({ checksum })
+      .where(and(eq(files.storageKey, storageKey), isNull(files.checksum)));
+    await db.update(fileVersions).set({ checksum })
+      .where(and(eq(fileVersions.storageKey, storageKey), isNull(fileVersions.checksum)));
+  }
+
+  async getObjectBackend(storageKey: string): Promise<string | undefined> {
+    const [location] = await db.select().from(objectLocations).where(eq(objectLocations.storageKey, storageKey));
+    return location?.backend;
+  }
+
+  async setObjectBackend(storageKey: string, backend: string): Promise<void> {
+    await db
+      .insert(objectLocations)
+      .values({ storageKey, backend })
+      .onConflictDoUpdate({
+        target: objectLocations.storageKey,
+        set: { backend, updatedAt: new Date() },
+      });
+    await db.update(files).set({ backend }).where(eq(files.storageKey, storageKey));
+  }
+
+  async deleteObjectLocation(storageKey: string): Promise<void> {
+    await db.delete(objectLocations).where(eq(objectLocations.storageKey, storageKey));
+  }
+
+  // Active files not downloaded since the cutoff and not yet on the cold backend. Content
+  // shared with a file that was accessed recently stays where it is.
+  async getColdFiles(accessedBefore: Date, coldBackend: string, defaultBackend: string, limit: number): Promise<File[]> {
+    return await db.select().from(files).where(
+      and(
+        eq(files.status, "active"),
+        ne(sql`coalesce(${files.backend}, ${defaultBackend})`, coldBackend),
+        lt(files.lastAccessedAt, accessedBefore),
+        sql`not exists (select 1 from ${files} recent where recent.storage_key = ${files.storageKey} and recent.last_accessed_at >= ${accessedBefore})`
+      )
+    ).orderBy(files.lastAccessedAt).limit(limit);
+  }
+
+  async getBackendUsage(defaultBackend: string): Promise<{ backend: string; fileCount: number; bytes: number }[]> {
+    const backend = sql<string>`coalesce(${files.backend}, ${defaultBackend})`;
+    return await db.select({
+      backend,
+      fileCount: sql<number>`count(*)::int`,
+      bytes: sql<number>`coalesce(sum(${files.size}), 0)::bigint`.mapWith(Number),
+    }).from(files).where(eq(files.status, "active")).groupBy(backend);
+  }
+
+  async getPlacementRules(): Promise<PlacementRule[]> {
+    return await db.select().from(placementRules)
+      .orderBy(desc(placementRules.priority), placementRules.createdAt);
+  }
+
+  async createPlacementRule(rule: InsertPlacementRule): Promise<PlacementRule> {
+    const [newRule] = (await db
+      .insert(placementRules)
+      .values(rule)
+      .returning()) as PlacementRule[];
+    return newRule;
+  }
+
+  async deletePlacementRule(id: string): Promise<PlacementRule | undefined> {
+    const [rule] = (await db
+      .delete(placementRules)
+      .where(eq(placementRules.id, id))
+      .returning()) as PlacementRule[];
+    return rule || undefined;
   }
 
   async getShareLink(id: string): Promise<ShareLink | undefined> {
@@ -185,6 +1111,12 @@ export class DatabaseStorage implements IStorage {
     return shareLink || undefined;
   }
 
+  async getShareLinksByUser(createdBy: string): Promise<ShareLink[]> {
+    return await db.select().from(shareLinks)
+      .where(eq(shareLinks.createdBy, createdBy))
+      .orderBy(desc(shareLinks.createdAt));
+  }
+
   async createShareLink(shareLink: InsertShareLink & { createdBy: string }): Promise<ShareLink> {
     const [newShareLink] = (await db
       .insert(shareLinks)
@@ -193,6 +1125,15 @@ export class DatabaseStorage implements IStorage {
     return newShareLink;
   }
 
+  async updateShareLink(id: string, updates: Partial<ShareLink>): Promise<ShareLink | undefined> {
+    const [shareLink] = (await db
+      .update(shareLinks)
+      .set(updates)
+      .where(eq(shareLinks.id, id))
+      .returning()) as ShareLink[];
+    return shareLink || undefined;
+  }
+
   async deleteShareLink(id: string): Promise<void> {
     await db.delete(shareLinks).where(eq(shareLinks.id, id));
   }
@@ -212,38 +1153,141 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
-    async getTrashItems(ownerId: string): Promise<{ files: File[]; folders: Folder[] }> {
+  // Names compare case-insensitively unless NAMES_CASE_SENSITIVE is set
+  private sameName(column: AnyColumn, name: string) {
+    return CASE_SENSITIVE_NAMES ? eq(column, name) : sql`lower(${column}) = lower(${name})`;
+  }
+
+  // Names are unique among an owner's live items in one parent. Checked here rather
+  // than by a unique index so the case rule stays configurable; two writes racing for
+  // the same name can both get through.
+  private async assertFolderNameFree(ownerId: string, parentId: string | null, name: string, exceptId?: string) {
+    const existing = await this.findFolderByName(ownerId, parentId, name);
+    if (existing && existing.id !== exceptId) {
+      throw new NameConflictError({ type: "folder", id: existing.id, name: existing.name });
+    }
+  }
+
+  // Encrypted names are ciphertext, so they never collide
+  private async assertFileNameFree(file: Pick<File, "ownerId" | "folderId" | "name" | "ext" | "encryption">, exceptId?: string) {
+    if (file.encryption) return;
+    const existing = await this.findFileByName(file.ownerId, file.folderId, file.name, file.ext);
+    if (existing && existing.id !== exceptId) {
+      throw new NameConflictError({ type: "file", id: existing.id, name: existing.name, ext: existing.ext });
+    }
+  }
+
+  // Trashed items whose parent wasn't trashed in the same batch
+  private trashedDirectly(parentId: AnyColumn, trashBatchId: AnyColumn) {
+    return sql`not exists (
+      select 1 from ${folders} parent
+      where parent.id = ${parentId} and parent.trash_batch_id = ${trashBatchId}
+    )`;
+  }
+
+  // Only what was trashed directly; the contents of a trashed folder come back with it
+  async getTrashItems(ownerId: string): Promise<{ files: File[]; folders: Folder[] }> {
     const trashedFiles = await db.select().from(files).where(
       and(
         eq(files.ownerId, ownerId),
-        isNotNull(files.deletedAt)
+        eq(files.status, "active"),
+        isNotNull(files.deletedAt),
+        this.trashedDirectly(files.folderId, files.trashBatchId)
       )
     ).orderBy(desc(files.deletedAt));
 
     const trashedFolders = await db.select().from(folders).where(
       and(
         eq(folders.ownerId, ownerId),
-        isNotNull(folders.deletedAt)
+        isNotNull(folders.deletedAt),
+        this.trashedDirectly(folders.parentId, folders.trashBatchId)
       )
     ).orderBy(desc(folders.deletedAt));
 
     return { files: trashedFiles, folders: trashedFolders };
   }
 
+  // The items of a batch that land among live siblings when it is restored
+  async getTrashBatchRoots(batchId: string, ownerId: string): Promise<{ files: File[]; folders: Folder[] }> {
+    const rootFiles = await db.select().from(files).where(
+      and(
+        eq(files.trashBatchId, batchId),
+        eq(files.ownerId, ownerId),
+        eq(files.status, "active"),
+        this.trashedDirectly(files.folderId, files.trashBatchId)
+      )
+    );
+
+    const rootFolders = await db.select().from(folders).where(
+      and(
+        eq(folders.trashBatchId, batchId),
+        eq(folders.ownerId, ownerId),
+        this.trashedDirectly(folders.parentId, folders.trashBatchId)
+      )
+    );
+
+    return { files: rootFiles, folders: rootFolders };
+  }
+
   async restoreFromTrash(id: string, type: 'file' | 'folder'): Promise<void> {
+    const restored = { deletedAt: null, trashBatchId: null, updatedAt: new Date() };
     if (type === 'file') {
       await db
         .update(files)
-        .set({ deletedAt: null, updatedAt: new Date() })
+        .set(restored)
         .where(eq(files.id, id));
     } else {
       await db
         .update(folders)
-        .set({ deletedAt: null, updatedAt: new Date() })
+        .set(restored)
         .where(eq(folders.id, id));
     }
   }
 
+  async restoreTrashBatch(batchId: string, ownerId: string): Promise<void> {
+    const restored = { deletedAt: null, trashBatchId: null, updatedAt: new Date() };
+    await db
+      .update(folders)
+      .set(restored)
+      .where(and(eq(folders.trashBatchId, batchId), eq(folders.ownerId, ownerId)));
+    await db
+      .update(files)
+      .set(restored)
+      .where(and(eq(files.trashBatchId, batchId), eq(files.ownerId, ownerId)));
+  }
+
+  // Directly trashed items past their owner's retention; purging a folder takes its contents
+  async getExpiredTrashItems(defaultRetentionDays: number, limit: number, excludeIds: string[] = []): Promise<ExpiredTrashItem[]> {
+    const retention = sql`make_interval(days => coalesce(${users.trashRetentionDays}, ${defaultRetentionDays})::int)`;
+
+    const expiredFolders = await db.select({ id: folders.id, ownerId: folders.ownerId }).from(folders)
+      .innerJoin(users, eq(users.id, folders.ownerId))
+      .where(and(
+        isNotNull(folders.deletedAt),
+        sql`${folders.deletedAt} < now() - ${retention}`,
+        this.trashedDirectly(folders.parentId, folders.trashBatchId),
+        excludeIds.length > 0 ? notInArray(folders.id, excludeIds) : undefined
+      ))
+      .orderBy(folders.deletedAt)
+      .limit(limit);
+
+    const expiredFiles = await db.select({ id: files.id, ownerId: files.ownerId }).from(files)
+      .innerJoin(users, eq(users.id, files.ownerId))
+      .where(and(
+        isNotNull(files.deletedAt),
+        sql`${files.deletedAt} < now() - ${retention}`,
+        this.trashedDirectly(files.folderId, files.trashBatchId),
+        excludeIds.length > 0 ? notInArray(files.id, excludeIds) : undefined
+      ))
+      .orderBy(files.deletedAt)
+      .limit(limit);
+
+    return [
+      ...expiredFolders.map((item) => ({ ...item, type: "folder" as const })),
+      ...expiredFiles.map((item) => ({ ...item, type: "file" as const })),
+    ];
+  }
+
   async permanentlyDelete(id: string, type: 'file' | 'folder'): Promise<void> {
     if (type === 'file') {
       await db.delete(files).where(eq(files.id, id));
@@ -1,9 +1,26 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, json, index, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, bigint, boolean, json, index, uniqueIndex, customType, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Key material for end-to-end encrypted folders. The server only ever sees the
+// folder key wrapped by a passphrase-derived key and file keys wrapped by the folder key.
+export const folderEncryptionSchema = z.object({
+  version: z.literal(1),
+  salt: z.string().min(1), // base64 PBKDF2 salt
+  iterations: z.number().int().min(100000),
+  wrappedKey: z.string().min(1), // base64 AES-GCM(iv || ciphertext) of the folder key
+});
+
+export const fileEncryptionSchema = z.object({
+  version: z.literal(1),
+  wrappedKey: z.string().min(1), // base64 AES-GCM(iv || ciphertext) of the file key
+});
+
+export type FolderEncryption = z.infer<typeof folderEncryptionSchema>;
+export type FileEncryption = z.infer<typeof fileEncryptionSchema>;
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: text("email").notNull().unique(),
@@ -12,21 +29,37 @@ export const users = pgTable("users", {
   role: text("role").notNull().default("user"), // 'admin' | 'user'
   googleId: text("google_id").unique(), // for Google OAuth
   provider: text("provider").notNull().default("local"), // 'local' | 'google'
+  quota: bigint("quota", { mode: "number" }), // bytes; null uses the default quota setting
+  trashRetentionDays: integer("trash_retention_days"), // null uses the default trash setting
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Per-user data keys for encryption at rest, wrapped (encrypted) by the master key
+export const userKeys = pgTable("user_keys", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  wrappedKey: text("wrapped_key").notNull(),
+  masterKeyId: text("master_key_id").notNull(), // fingerprint of the master key that wrapped it
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  rotatedAt: timestamp("rotated_at"),
+});
+
 export const folders = pgTable("folders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   parentId: varchar("parent_id").references((): AnyPgColumn => folders.id, { onDelete: "cascade" }),
+  encryption: json("encryption").$type<FolderEncryption>(), // set for end-to-end encrypted folders
   ownerId: varchar("owner_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   deletedAt: timestamp("deleted_at"),
+  trashBatchId: varchar("trash_batch_id"), // shared by everything trashed in one go, restored together
 }, (table) => ({
   ownerIdIdx: index("folders_owner_id_idx").on(table.ownerId),
   parentIdIdx: index("folders_parent_id_idx").on(table.parentId),
+  nameSearchIdx: index("folders_name_search_idx").using("gin", sql`to_tsvector('english', ${table.name})`),
+  trashBatchIdx: index("folders_trash_batch_id_idx").on(table.trashBatchId),
+  siblingNameIdx: index("folders_sibling_name_idx").on(table.ownerId, table.parentId, sql`lower(${table.name})`),
 }));
 
 export const files = pgTable("files", {
@@ -34,17 +67,227 @@ export const files = pgTable("files", {
   name: text("name").notNull(),
   ext: text("ext").notNull(),
   mime: text("mime").notNull(),
-  size: integer("size").notNull(),
+  size: bigint("size", { mode: "number" }).notNull(),
   storageKey: text("storage_key").notNull(),
   checksum: text("checksum"),
+  status: text("status").notNull().default("active"), // 'pending' | 'active' | 'quarantined'
+  encryption: json("encryption").$type<FileEncryption>(), // name and content are client-side ciphertext
+  backend: text("backend"), // storage backend holding the current content; null for the default backend
+  currentVersionId: varchar("current_version_id").references((): AnyPgColumn => fileVersions.id, { onDelete: "set null" }),
   ownerId: varchar("owner_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
   folderId: varchar("folder_id").references(() => folders.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   deletedAt: timestamp("deleted_at"),
+  trashBatchId: varchar("trash_batch_id"), // see folders.trashBatchId
+  lastAccessedAt: timestamp("last_accessed_at").defaultNow().notNull(), // last download, for cold tiering
 }, (table) => ({
   ownerIdIdx: index("files_owner_id_idx").on(table.ownerId),
   folderIdIdx: index("files_folder_id_idx").on(table.folderId),
+  storageKeyIdx: index("files_storage_key_idx").on(table.storageKey),
+  // Search queries must use this exact expression for the index to apply
+  nameSearchIdx: index("files_name_search_idx").using("gin", sql`to_tsvector('english', ${table.name})`),
+  trashBatchIdx: index("files_trash_batch_id_idx").on(table.trashBatchId),
+  siblingNameIdx: index("files_sibling_name_idx").on(table.ownerId, table.folderId, sql`lower(${table.name})`),
+}));
+
+// The live sibling a create, rename or move collided with, sent with 409 responses so
+// the client can offer to rename, replace or keep both
+export interface NameConflict {
+  type: "file" | "folder";
+  id: string;
+  name: string;
+  ext?: string; // files only
+}
+
+// Deduplicated stored objects, one per distinct content hash. refCount counts the
+// file versions pointing at the object; it is deleted when the count reaches zero
+export const blobs = pgTable("blobs", {
+  checksum: text("checksum").primaryKey(), // SHA-256 of the content
+  storageKey: text("storage_key").notNull().unique(),
+  size: bigint("size", { mode: "number" }).notNull(),
+  refCount: integer("ref_count").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Downscaled copies of stored images, keyed by the original's storage key so
+// deduplicated content and every version share them
+export const renditions = pgTable("renditions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sourceKey: text("source_key").notNull(),
+  kind: text("kind").notNull(), // 'thumbnail' | 'preview'
+  storageKey: text("storage_key").notNull(),
+  mime: text("mime").notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  size: bigint("size", { mode: "number" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  sourceKindIdx: uniqueIndex("renditions_source_kind_idx").on(table.sourceKey, table.kind),
+}));
+
+// drizzle has no built-in tsvector column type
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Text extracted from stored content for full-text search, keyed by storage key
+// like renditions so deduplicated content and every version share it
+export const fileContents = pgTable("file_contents", {
+  storageKey: text("storage_key").primaryKey(),
+  text: text("text").notNull(), // truncated to SEARCH_MAX_TEXT_CHARS
+  searchVector: tsvector("search_vector").notNull().generatedAlwaysAs(sql`to_tsvector('english', "text")`),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  searchVectorIdx: index("file_contents_search_vector_idx").using("gin", table.searchVector),
+}));
+
+// Every stored revision of a file; files.storageKey/size/checksum mirror the current one
+export const fileVersions = pgTable("file_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fileId: varchar("file_id").references(() => files.id, { onDelete: "cascade" }).notNull(),
+  versionNumber: integer("version_number").notNull(),
+  storageKey: text("storage_key").notNull(),
+  mime: text("mime").notNull(),
+  size: bigint("size", { mode: "number" }).notNull(),
+  checksum: text("checksum"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  fileIdVersionIdx: uniqueIndex("file_versions_file_id_version_idx").on(table.fileId, table.versionNumber),
+}));
+
+export const uploadSessions = pgTable("upload_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fileId: varchar("file_id").references(() => files.id, { onDelete: "set null" }),
+  uploadId: text("upload_id").notNull(),
+  storageKey: text("storage_key").notNull(),
+  ownerId: varchar("owner_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  status: text("status").notNull().default("pending"), // 'pending' | 'completed' | 'aborted'
+  size: bigint("size", { mode: "number" }).notNull(),
+  partSize: bigint("part_size", { mode: "number" }).notNull(),
+  partCount: integer("part_count").notNull(),
+  etag: text("etag"), // storage service ETag of the assembled object
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  fileIdIdx: index("upload_sessions_file_id_idx").on(table.fileId),
+  statusUpdatedAtIdx: index("upload_sessions_status_updated_at_idx").on(table.status, table.updatedAt),
+}));
+
+// Copies of stored objects from one storage driver to another; re-running a
+// migration resumes it, copying only objects that are not yet verified on the target
+export const storageMigrations = pgTable("storage_migrations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sourceDriver: text("source_driver").notNull(), // 'local' | 's3'
+  targetDriver: text("target_driver").notNull(),
+  status: text("status").notNull().default("running"), // 'running' | 'completed' | 'failed'
+  totalObjects: integer("total_objects").notNull().default(0),
+  copiedObjects: integer("copied_objects").notNull().default(0),
+  failedObjects: integer("failed_objects").notNull().default(0),
+  copiedBytes: bigint("copied_bytes", { mode: "number" }).notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const storageMigrationObjects = pgTable("storage_migration_objects", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  migrationId: varchar("migration_id").references(() => storageMigrations.id, { onDelete: "cascade" }).notNull(),
+  storageKey: text("storage_key").notNull(),
+  mime: text("mime").notNull(),
+  size: bigint("size", { mode: "number" }).notNull(),
+  checksum: text("checksum"), // expected SHA-256 from the file record, when known
+  status: text("status").notNull().default("pending"), // 'pending' | 'copied' | 'failed'
+  error: text("error"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  migrationKeyIdx: uniqueIndex("storage_migration_objects_migration_key_idx").on(table.migrationId, table.storageKey),
+  migrationStatusIdx: index("storage_migration_objects_migration_status_idx").on(table.migrationId, table.status),
+}));
+
+// Which configured storage backend holds each object. Objects without a row were
+// stored before multiple backends and live on the default backend.
+export const objectLocations = pgTable("object_locations", {
+  storageKey: text("storage_key").primaryKey(),
+  backend: text("backend").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Decide where new content is stored. The matching rule with the highest priority
+// wins; unset conditions match anything, and a folder rule covers its subfolders too.
+export const placementRules = pgTable("placement_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  backend: text("backend").notNull(),
+  priority: integer("priority").notNull().default(0),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  folderId: varchar("folder_id").references(() => folders.id, { onDelete: "cascade" }),
+  minSize: bigint("min_size", { mode: "number" }),
+  maxSize: bigint("max_size", { mode: "number" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export interface ScrubIssue {
+  type: "orphan" | "missing" | "mismatch";
+  storageKey: string;
+  size?: number; // stored size of orphaned objects
+  action?: "quarantined"; // what the scrubber did about it, when repairing
+}
+
+// Integrity scrubs compare what the storage backend holds with what the database
+// references. Issues are kept with the run, capped so a badly broken store can't bloat the row.
+export const scrubRuns = pgTable("scrub_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  status: text("status").notNull().default("running"), // 'running' | 'completed' | 'failed'
+  repair: boolean("repair").notNull().default(false),
+  verifyChecksums: boolean("verify_checksums").notNull().default(false),
+  objectsScanned: integer("objects_scanned").notNull().default(0),
+  rowsScanned: integer("rows_scanned").notNull().default(0),
+  orphanCount: integer("orphan_count").notNull().default(0),
+  missingCount: integer("missing_count").notNull().default(0),
+  mismatchCount: integer("mismatch_count").notNull().default(0),
+  issues: json("issues").$type<ScrubIssue[]>().notNull().default([]),
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Admin-editable settings that apply to every user, one JSON value per key
+export const settings = pgTable("settings", {
+  key: text("key").primaryKey(),
+  value: json("value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const quotaSettingsSchema = z.object({
+  defaultQuota: z.number().int().nonnegative(), // bytes, for users without a quota of their own
+  includeTrash: z.boolean(), // count files in the trash against the quota
+  includeVersions: z.boolean(), // count previous versions against the quota
+  warnThresholds: z.array(z.number().int().min(1).max(100)), // percentages of the quota
+});
+
+export const trashSettingsSchema = z.object({
+  retentionDays: z.number().int().min(1), // trashed items older than this are purged
+});
+
+// Background work queued by requests, e.g. post-upload processing. Workers claim due
+// jobs with SKIP LOCKED; finished jobs are deleted and ones out of attempts are kept as 'dead'.
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(),
+  payload: json("payload").notNull(),
+  status: text("status").notNull().default("queued"), // 'queued' | 'running' | 'dead'
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at").defaultNow().notNull(),
+  lockedAt: timestamp("locked_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  statusRunAtIdx: index("jobs_status_run_at_idx").on(table.status, table.runAt),
 }));
 
 export const shareLinks = pgTable("share_links", {
@@ -88,9 +331,20 @@ export const foldersRelations = relations(folders, ({ one, many }) => ({
   files: many(files),
 }));
 
-export const filesRelations = relations(files, ({ one }) => ({
+export const filesRelations = relations(files, ({ one, many }) => ({
   owner: one(users, { fields: [files.ownerId], references: [users.id] }),
   folder: one(folders, { fields: [files.folderId], references: [folders.id] }),
+  versions: many(fileVersions),
+}));
+
+export const fileVersionsRelations = relations(fileVersions, ({ one }) => ({
+  file: one(files, { fields: [fileVersions.fileId], references: [files.id] }),
+  creator: one(users, { fields: [fileVersions.createdBy], references: [users.id] }),
+}));
+
+export const uploadSessionsRelations = relations(uploadSessions, ({ one }) => ({
+  owner: one(users, { fields: [uploadSessions.ownerId], references: [users.id] }),
+  file: one(files, { fields: [uploadSessions.fileId], references: [files.id] }),
 }));
 
 export const shareLinksRelations = relations(shareLinks, ({ one }) => ({
@@ -116,6 +370,8 @@ export const insertGoogleUserSchema = insertUserSchema.omit({ passwordHash: true
 export const insertFolderSchema = createInsertSchema(folders).pick({
   name: true,
   parentId: true,
+}).extend({
+  encryption: folderEncryptionSchema.nullish(),
 });
 
 export const insertFileSchema = createInsertSchema(files).pick({
@@ -125,7 +381,28 @@ export const insertFileSchema = createInsertSchema(files).pick({
   size: true,
   storageKey: true,
   checksum: true,
+  status: true,
   folderId: true,
+}).extend({
+  encryption: fileEncryptionSchema.nullish(),
+});
+
+export const insertFileVersionSchema = createInsertSchema(fileVersions).pick({
+  fileId: true,
+  versionNumber: true,
+  storageKey: true,
+  mime: true,
+  size: true,
+  checksum: true,
+});
+
+export const insertUploadSessionSchema = createInsertSchema(uploadSessions).pick({
+  fileId: true,
+  uploadId: true,
+  storageKey: true,
+  size: true,
+  partSize: true,
+  partCount: true,
 });
 
 export const insertShareLinkSchema = createInsertSchema(shareLinks).pick({
@@ -136,6 +413,15 @@ export const insertShareLinkSchema = createInsertSchema(shareLinks).pick({
   allowDownload: true,
 });
 
+export const insertPlacementRuleSchema = createInsertSchema(placementRules).pick({
+  backend: true,
+  priority: true,
+  userId: true,
+  folderId: true,
+  minSize: true,
+  maxSize: true,
+});
+
 export const insertAuditLogSchema = createInsertSchema(auditLogs).pick({
   action: true,
   targetType: true,
@@ -150,6 +436,24 @@ export type InsertFolder = z.infer<typeof insertFolderSchema>;
 export type Folder = typeof folders.$inferSelect;
 export type InsertFile = z.infer<typeof insertFileSchema>;
 export type File = typeof files.$inferSelect;
+export type UserKey = typeof userKeys.$inferSelect;
+export type Blob = typeof blobs.$inferSelect;
+export type InsertFileVersion = z.infer<typeof insertFileVersionSchema>;
+export type FileVersion = typeof fileVersions.$inferSelect;
+export type Rendition = typeof renditions.$inferSelect;
+export type FileContent = typeof fileContents.$inferSelect;
+export type InsertUploadSession = z.infer<typeof insertUploadSessionSchema>;
+export type UploadSession = typeof uploadSessions.$inferSelect;
+export type StorageMigration = typeof storageMigrations.$inferSelect;
+export type StorageMigrationObject = typeof storageMigrationObjects.$inferSelect;
+export type ScrubRun = typeof scrubRuns.$inferSelect;
+export type Job = typeof jobs.$inferSelect;
+export type Setting = typeof settings.$inferSelect;
+export type QuotaSettings = z.infer<typeof quotaSettingsSchema>;
+export type TrashSettings = z.infer<typeof trashSettingsSchema>;
+export type ObjectLocation = typeof objectLocations.$inferSelect;
+export type InsertPlacementRule = z.infer<typeof insertPlacementRuleSchema>;
+export type PlacementRule = typeof placementRules.$inferSelect;
 export type InsertShareLink = z.infer<typeof insertShareLinkSchema>;
 export type ShareLink = typeof shareLinks.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;